@@ -0,0 +1,697 @@
+/*
+ * TypeScript implementation of the git-crypt encrypted file format
+ * Reference: clean/smudge in git-crypt/commands.cpp
+ */
+
+import { Duplex, Transform, TransformCallback } from 'stream';
+import type { FileHandle } from 'fs/promises';
+import { AesCtrEncryptor, AesCtrDecryptor, HmacSha1State } from './crypto';
+import { KeyFile, KeyEntry } from './key';
+import { GitCryptError, TempFileStream, leaklessEquals } from './util';
+
+/**
+ * Header that identifies an encrypted file
+ */
+export const GITCRYPT_FILE_HEADER = Buffer.from('\0GITCRYPT\0', 'binary');
+
+/**
+ * Length of the header plus the nonce that follows it
+ */
+export const ENCRYPTED_HEADER_LEN = GITCRYPT_FILE_HEADER.length + AesCtrEncryptor.NONCE_LEN;
+
+/**
+ * Default size beyond which createEncryptStream() and createDecryptStream()
+ * keep their input in a temporary file
+ */
+export const DEFAULT_SPILL_THRESHOLD = 8 * 1024 * 1024;
+
+/**
+ * Size of the chunks read back from a temporary file for encryption
+ */
+const SPILL_READ_SIZE = 64 * 1024;
+
+/**
+ * Options for createEncryptStream()
+ */
+export interface EncryptStreamOptions {
+  /** Plaintext size beyond which the input is moved from memory to a protected temporary file */
+  spillThreshold?: number;
+}
+
+/**
+ * Options for createDecryptStream()
+ */
+export interface DecryptStreamOptions {
+  /** Check the whole file before outputting any plaintext, as is always done with several key versions */
+  verifyFirst?: boolean;
+  /** Ciphertext size beyond which a file held until it is verified is moved to a temporary file */
+  spillThreshold?: number;
+}
+
+/**
+ * Result of decrypting an encrypted file
+ */
+export interface DecryptResult {
+  plaintext: Buffer;
+  /** Whether the HMAC of the plaintext matches the nonce */
+  verified: boolean;
+  /** Version of the key entry that produced the plaintext */
+  version: number;
+}
+
+/**
+ * Check whether data starts with the git-crypt header and a complete nonce
+ */
+export function isEncryptedBlob(data: Uint8Array): boolean {
+  return data.length >= ENCRYPTED_HEADER_LEN &&
+    leaklessEquals(data.subarray(0, GITCRYPT_FILE_HEADER.length), GITCRYPT_FILE_HEADER);
+}
+
+/**
+ * Compute the synthetic nonce for a file: the truncated HMAC-SHA1 of its contents
+ */
+export function computeNonce(key: KeyEntry, plaintext: Uint8Array): Uint8Array {
+  const hmac = new HmacSha1State(key.hmacKey);
+  hmac.add(plaintext);
+  const digest = new Uint8Array(HmacSha1State.LEN);
+  hmac.get(digest);
+  return digest.subarray(0, AesCtrEncryptor.NONCE_LEN);
+}
+
+/**
+ * Resolve the key entry to use (the latest one for a key file)
+ */
+function getLatestKey(key: KeyFile | KeyEntry): KeyEntry {
+  if (key instanceof KeyEntry) {
+    return key;
+  }
+
+  const entry = key.getLatest();
+  if (!entry) {
+    throw new GitCryptError('key file is empty');
+  }
+  return entry;
+}
+
+/**
+ * Encrypt plaintext into the exact bytes git-crypt would commit:
+ * header, HMAC-derived nonce, then AES-CTR ciphertext
+ */
+export function encryptBlob(key: KeyFile | KeyEntry, plaintext: Uint8Array): Buffer {
+  const entry = getLatestKey(key);
+
+  // Make sure the file isn't so large we'll overflow the counter value (which would doom security)
+  if (plaintext.length >= AesCtrEncryptor.MAX_CRYPT_BYTES) {
+    throw new GitCryptError('file too long to encrypt securely');
+  }
+
+  // We use an HMAC of the file as the encryption nonce (IV) for CTR mode.
+  // This makes the encryption deterministic, so git doesn't think the file
+  // has changed when it really hasn't, while a tiny change to the file still
+  // results in a completely different nonce and ciphertext.  Using an HMAC
+  // rather than a plain hash prevents an attacker from building a dictionary
+  // of hash values to look up the (cleartext) nonce.
+  const nonce = computeNonce(entry, plaintext);
+
+  const output = Buffer.alloc(ENCRYPTED_HEADER_LEN + plaintext.length);
+  GITCRYPT_FILE_HEADER.copy(output, 0);
+  output.set(nonce, GITCRYPT_FILE_HEADER.length);
+
+  const encryptor = new AesCtrEncryptor(entry.aesKey, nonce);
+  try {
+    encryptor.process(plaintext, output.subarray(ENCRYPTED_HEADER_LEN));
+  } finally {
+    encryptor.destroy();
+  }
+
+  return output;
+}
+
+/**
+ * Decrypt ciphertext with a single key entry, checking it against the nonce
+ */
+function decryptWithEntry(entry: KeyEntry, nonce: Uint8Array, ciphertext: Uint8Array): DecryptResult {
+  const plaintext = Buffer.alloc(ciphertext.length);
+  const decryptor = new AesCtrDecryptor(entry.aesKey, nonce);
+  try {
+    decryptor.process(ciphertext, plaintext);
+  } finally {
+    decryptor.destroy();
+  }
+
+  return {
+    plaintext,
+    verified: leaklessEquals(computeNonce(entry, plaintext), nonce),
+    version: entry.version
+  };
+}
+
+/**
+ * Decrypt an encrypted file without throwing if verification fails.
+ * The file header does not record which key version was used, so each
+ * entry of a key file is tried, latest first, until the HMAC matches;
+ * if none does, the result of the latest entry is returned unverified.
+ */
+export function tryDecryptBlob(key: KeyFile | KeyEntry, encrypted: Uint8Array): DecryptResult {
+  if (!isEncryptedBlob(encrypted)) {
+    throw new GitCryptError('not a git-crypt encrypted file');
+  }
+
+  const nonce = encrypted.subarray(GITCRYPT_FILE_HEADER.length, ENCRYPTED_HEADER_LEN);
+  const ciphertext = encrypted.subarray(ENCRYPTED_HEADER_LEN);
+
+  if (key instanceof KeyEntry) {
+    return decryptWithEntry(key, nonce, ciphertext);
+  }
+
+  let fallback: DecryptResult | null = null;
+  for (const version of key.getVersions()) {
+    const result = decryptWithEntry(key.get(version)!, nonce, ciphertext);
+    if (result.verified) {
+      return result;
+    }
+    if (!fallback) {
+      fallback = result;
+    }
+  }
+
+  if (!fallback) {
+    throw new GitCryptError('key file is empty');
+  }
+  return fallback;
+}
+
+/**
+ * Decrypt a file in git-crypt format, parsing the header itself
+ */
+export function decryptBlob(key: KeyFile | KeyEntry, encrypted: Uint8Array): Buffer {
+  const result = tryDecryptBlob(key, encrypted);
+  if (!result.verified) {
+    throw new GitCryptError('encrypted file has been tampered with');
+  }
+  return result.plaintext;
+}
+
+/**
+ * Clamp a plaintext range to the size of the file, validating it
+ */
+function clampRange(plaintextLength: number, offset: number, length: number): { start: number; end: number } {
+  if (!Number.isSafeInteger(offset) || offset < 0 || !Number.isSafeInteger(length) || length < 0) {
+    throw new GitCryptError(`invalid range: offset ${offset}, length ${length}`);
+  }
+
+  const start = Math.min(offset, plaintextLength);
+  return { start, end: Math.min(plaintextLength, start + length) };
+}
+
+/**
+ * Resolve the key entry to decrypt a range with. A range cannot be checked
+ * against the nonce, so the version cannot be found by trial as in
+ * tryDecryptBlob(): it has to be given when a key file has several.
+ */
+function getRangeKey(key: KeyFile | KeyEntry, version: number | undefined): KeyEntry {
+  if (key instanceof KeyEntry) {
+    return key;
+  }
+
+  if (version === undefined) {
+    if (key.getVersions().length > 1) {
+      throw new GitCryptError('key file has several versions; specify the one the file was encrypted with');
+    }
+    return getLatestKey(key);
+  }
+
+  const entry = key.get(version);
+  if (!entry) {
+    throw new GitCryptError(`key file has no version ${version}`);
+  }
+  return entry;
+}
+
+/**
+ * Decrypt part of an encrypted file: up to `length` bytes of plaintext starting
+ * at `offset`, without processing the rest of the file. The nonce is the HMAC
+ * of the whole plaintext, so a range cannot be verified, and a wrong key
+ * version would give garbage: with a key file holding several versions, pass
+ * the version the file was encrypted with (as reported by tryDecryptBlob()).
+ */
+export function decryptRange(
+  encrypted: Uint8Array,
+  key: KeyFile | KeyEntry,
+  offset: number,
+  length: number,
+  version?: number
+): Buffer {
+  if (!isEncryptedBlob(encrypted)) {
+    throw new GitCryptError('not a git-crypt encrypted file');
+  }
+
+  const { start, end } = clampRange(encrypted.length - ENCRYPTED_HEADER_LEN, offset, length);
+  const nonce = encrypted.subarray(GITCRYPT_FILE_HEADER.length, ENCRYPTED_HEADER_LEN);
+  const plaintext = Buffer.alloc(end - start);
+
+  const decryptor = new AesCtrDecryptor(getRangeKey(key, version).aesKey, nonce, start);
+  try {
+    decryptor.process(encrypted.subarray(ENCRYPTED_HEADER_LEN + start, ENCRYPTED_HEADER_LEN + end), plaintext);
+  } finally {
+    decryptor.destroy();
+  }
+  return plaintext;
+}
+
+/**
+ * Decrypt part of an encrypted file open as a FileHandle, reading only its
+ * header and the requested range (see decryptRange() for the key version)
+ */
+export async function decryptFileRange(
+  handle: FileHandle,
+  key: KeyFile | KeyEntry,
+  offset: number,
+  length: number,
+  version?: number
+): Promise<Buffer> {
+  const entry = getRangeKey(key, version);
+
+  const header = Buffer.alloc(ENCRYPTED_HEADER_LEN);
+  const { bytesRead } = await handle.read(header, 0, header.length, 0);
+  if (!isEncryptedBlob(header.subarray(0, bytesRead))) {
+    throw new GitCryptError('not a git-crypt encrypted file');
+  }
+
+  const { size } = await handle.stat();
+  const { start, end } = clampRange(size - ENCRYPTED_HEADER_LEN, offset, length);
+
+  const ciphertext = Buffer.alloc(end - start);
+  for (let done = 0; done < ciphertext.length;) {
+    const read = await handle.read(ciphertext, done, ciphertext.length - done, ENCRYPTED_HEADER_LEN + start + done);
+    if (read.bytesRead === 0) {
+      throw new GitCryptError('unexpected end of encrypted file');
+    }
+    done += read.bytesRead;
+  }
+
+  const nonce = header.subarray(GITCRYPT_FILE_HEADER.length, ENCRYPTED_HEADER_LEN);
+  const decryptor = new AesCtrDecryptor(entry.aesKey, nonce, start);
+  try {
+    decryptor.process(ciphertext, ciphertext);
+  } finally {
+    decryptor.destroy();
+  }
+  return ciphertext;
+}
+
+/**
+ * Data held until a stream can process it: in memory up to a threshold, then
+ * in a temporary file that is read back in chunks and wiped when cleared
+ */
+class SpillBuffer {
+  private chunks: Buffer[] = [];
+  private length = 0;
+  private tempFile: TempFileStream | null = null;
+  private fileHandle: FileHandle | null = null;
+  private readPosition = 0;
+
+  constructor(private readonly threshold: number) {}
+
+  /**
+   * Whether the data has been moved to a temporary file
+   */
+  get spilled(): boolean {
+    return this.fileHandle !== null;
+  }
+
+  /**
+   * Keep a chunk, moving everything to a temporary file once the threshold has been exceeded
+   */
+  async append(chunk: Buffer): Promise<void> {
+    if (chunk.length === 0) {
+      return;
+    }
+    this.length += chunk.length;
+
+    if (!this.fileHandle) {
+      if (this.length <= this.threshold) {
+        this.chunks.push(chunk);
+        return;
+      }
+
+      this.tempFile = new TempFileStream();
+      this.fileHandle = await this.tempFile.open('wx+');
+      for (const buffered of this.chunks.splice(0)) {
+        await this.fileHandle.writeFile(buffered);
+      }
+    }
+    await this.fileHandle.writeFile(chunk);
+  }
+
+  /**
+   * Get the next chunk back, or null once everything has been read
+   */
+  async next(): Promise<Buffer | null> {
+    if (!this.fileHandle) {
+      return this.chunks.shift() || null;
+    }
+
+    const buffer = Buffer.alloc(SPILL_READ_SIZE);
+    const { bytesRead } = await this.fileHandle.read(buffer, 0, buffer.length, this.readPosition);
+    this.readPosition += bytesRead;
+    return bytesRead > 0 ? buffer.subarray(0, bytesRead) : null;
+  }
+
+  /**
+   * Drop the data, wiping and deleting the temporary file if any
+   */
+  async clear(): Promise<void> {
+    const tempFile = this.tempFile;
+    this.chunks = [];
+    this.tempFile = null;
+    this.fileHandle = null;
+
+    if (tempFile) {
+      try {
+        await tempFile.wipe();
+      } finally {
+        await tempFile.close();
+      }
+    }
+  }
+}
+
+/**
+ * Stream that encrypts a whole file into git-crypt format.
+ * The nonce is the HMAC of the entire plaintext, so nothing can be output
+ * until all input has been hashed: small inputs are held in memory, larger
+ * ones in a temporary file that is read back for the encryption pass (at
+ * the pace the consumer reads) and wiped afterwards.
+ */
+class EncryptStream extends Duplex {
+  private readonly hmac: HmacSha1State;
+  private readonly plaintext: SpillBuffer;
+  private length = 0;
+  private encryptor: AesCtrEncryptor | null = null;
+  private producing = false;
+
+  constructor(private readonly entry: KeyEntry, spillThreshold: number) {
+    super();
+    this.hmac = new HmacSha1State(entry.hmacKey);
+    this.plaintext = new SpillBuffer(spillThreshold);
+  }
+
+  _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.length += chunk.length;
+
+    // Make sure the file isn't so large we'll overflow the counter value (which would doom security)
+    if (this.length >= AesCtrEncryptor.MAX_CRYPT_BYTES) {
+      callback(new GitCryptError('file too long to encrypt securely'));
+      return;
+    }
+
+    this.hmac.add(chunk);
+    this.plaintext.append(chunk).then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    const digest = new Uint8Array(HmacSha1State.LEN);
+    this.hmac.get(digest);
+    const nonce = digest.subarray(0, AesCtrEncryptor.NONCE_LEN);
+
+    const header = Buffer.alloc(ENCRYPTED_HEADER_LEN);
+    GITCRYPT_FILE_HEADER.copy(header, 0);
+    header.set(nonce, GITCRYPT_FILE_HEADER.length);
+
+    // Pushing the header makes the stream ask for more, which starts the encryption pass
+    this.encryptor = new AesCtrEncryptor(this.entry.aesKey, nonce);
+    this.push(header);
+    callback();
+  }
+
+  _read(): void {
+    if (!this.encryptor || this.producing) {
+      return;
+    }
+
+    this.producing = true;
+    this.produce().then(
+      () => { this.producing = false; },
+      (error: Error) => this.destroy(error)
+    );
+  }
+
+  _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    this.encryptor?.destroy();
+    this.plaintext.clear().then(() => callback(error), (wipeError: Error) => callback(error || wipeError));
+  }
+
+  /**
+   * Encrypt and push plaintext until the consumer has enough or the input is exhausted
+   */
+  private async produce(): Promise<void> {
+    for (;;) {
+      const plaintext = await this.plaintext.next();
+      if (!plaintext) {
+        this.encryptor!.destroy();
+        await this.plaintext.clear();
+        this.push(null);
+        return;
+      }
+
+      const ciphertext = Buffer.alloc(plaintext.length);
+      this.encryptor!.process(plaintext, ciphertext);
+      if (this.plaintext.spilled) {
+        plaintext.fill(0);
+      }
+      if (!this.push(ciphertext)) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Transform that decrypts a file in git-crypt format with a single key entry.
+ * Like git-crypt's smudge, the plaintext is emitted as it is decrypted and
+ * checked against the nonce at the end, where a mismatch fails the stream.
+ */
+class DecryptStream extends Transform {
+  private header = Buffer.alloc(0);
+  private nonce: Uint8Array | null = null;
+  private decryptor: AesCtrDecryptor | null = null;
+  private hmac: HmacSha1State | null = null;
+
+  constructor(private readonly entry: KeyEntry) {
+    super();
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    let ciphertext = chunk;
+
+    if (!this.decryptor) {
+      // Collect the header and nonce, which may be split across chunks
+      this.header = Buffer.concat([this.header, chunk]);
+      if (this.header.length < ENCRYPTED_HEADER_LEN) {
+        callback();
+        return;
+      }
+      if (!isEncryptedBlob(this.header)) {
+        callback(new GitCryptError('not a git-crypt encrypted file'));
+        return;
+      }
+
+      this.nonce = Buffer.from(this.header.subarray(GITCRYPT_FILE_HEADER.length, ENCRYPTED_HEADER_LEN));
+      this.decryptor = new AesCtrDecryptor(this.entry.aesKey, this.nonce);
+      this.hmac = new HmacSha1State(this.entry.hmacKey);
+      ciphertext = this.header.subarray(ENCRYPTED_HEADER_LEN);
+      this.header = Buffer.alloc(0);
+    }
+
+    try {
+      const plaintext = Buffer.alloc(ciphertext.length);
+      this.decryptor.process(ciphertext, plaintext);
+      this.hmac!.add(plaintext);
+      this.push(plaintext);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (!this.decryptor) {
+      callback(new GitCryptError('not a git-crypt encrypted file'));
+      return;
+    }
+
+    const digest = new Uint8Array(HmacSha1State.LEN);
+    this.hmac!.get(digest);
+    if (!leaklessEquals(digest.subarray(0, AesCtrEncryptor.NONCE_LEN), this.nonce!)) {
+      callback(new GitCryptError('encrypted file has been tampered with'));
+      return;
+    }
+    callback();
+  }
+
+  _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    this.decryptor?.destroy();
+    callback(error);
+  }
+}
+
+/**
+ * Stream that decrypts a file in git-crypt format only once it has been
+ * verified. The header does not record the key version either, so like
+ * tryDecryptBlob() every entry is tried and the latest one whose HMAC
+ * matches the nonce is used. That is only known once all input has been
+ * hashed, so the ciphertext is held (in a temporary file once it is large)
+ * and decrypted again with that entry at the pace the consumer reads.
+ */
+class VerifiedDecryptStream extends Duplex {
+  private header = Buffer.alloc(0);
+  private nonce: Uint8Array | null = null;
+  private candidates: { entry: KeyEntry; decryptor: AesCtrDecryptor; hmac: HmacSha1State }[] = [];
+  private readonly ciphertext: SpillBuffer;
+  private decryptor: AesCtrDecryptor | null = null;
+  private producing = false;
+
+  constructor(private readonly entries: KeyEntry[], spillThreshold: number) {
+    super();
+    this.ciphertext = new SpillBuffer(spillThreshold);
+  }
+
+  _write(chunk: Buffer, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    let ciphertext = chunk;
+
+    if (!this.nonce) {
+      // Collect the header and nonce, which may be split across chunks
+      this.header = Buffer.concat([this.header, chunk]);
+      if (this.header.length < ENCRYPTED_HEADER_LEN) {
+        callback();
+        return;
+      }
+      if (!isEncryptedBlob(this.header)) {
+        callback(new GitCryptError('not a git-crypt encrypted file'));
+        return;
+      }
+
+      const nonce = Buffer.from(this.header.subarray(GITCRYPT_FILE_HEADER.length, ENCRYPTED_HEADER_LEN));
+      this.nonce = nonce;
+      this.candidates = this.entries.map(entry => ({
+        entry,
+        decryptor: new AesCtrDecryptor(entry.aesKey, nonce),
+        hmac: new HmacSha1State(entry.hmacKey)
+      }));
+      ciphertext = this.header.subarray(ENCRYPTED_HEADER_LEN);
+      this.header = Buffer.alloc(0);
+    }
+
+    // Each candidate's plaintext is only needed for its HMAC
+    const plaintext = Buffer.alloc(ciphertext.length);
+    try {
+      for (const candidate of this.candidates) {
+        candidate.decryptor.process(ciphertext, plaintext);
+        candidate.hmac.add(plaintext);
+      }
+    } catch (error) {
+      callback(error as Error);
+      return;
+    } finally {
+      plaintext.fill(0);
+    }
+    this.ciphertext.append(ciphertext).then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    if (!this.nonce) {
+      callback(new GitCryptError('not a git-crypt encrypted file'));
+      return;
+    }
+
+    let chosen: KeyEntry | null = null;
+    for (const candidate of this.candidates) {
+      candidate.decryptor.destroy();
+      const digest = new Uint8Array(HmacSha1State.LEN);
+      candidate.hmac.get(digest);
+      if (!chosen && leaklessEquals(digest.subarray(0, AesCtrEncryptor.NONCE_LEN), this.nonce)) {
+        chosen = candidate.entry;
+      }
+    }
+    this.candidates = [];
+    if (!chosen) {
+      callback(new GitCryptError('encrypted file has been tampered with'));
+      return;
+    }
+
+    this.decryptor = new AesCtrDecryptor(chosen.aesKey, this.nonce);
+    callback();
+    // Earlier reads found nothing to produce, so the decryption pass is started here
+    this._read();
+  }
+
+  _read(): void {
+    if (!this.decryptor || this.producing) {
+      return;
+    }
+
+    this.producing = true;
+    this.produce().then(
+      () => { this.producing = false; },
+      (error: Error) => this.destroy(error)
+    );
+  }
+
+  _destroy(error: Error | null, callback: (error: Error | null) => void): void {
+    for (const candidate of this.candidates) {
+      candidate.decryptor.destroy();
+    }
+    this.decryptor?.destroy();
+    this.ciphertext.clear().then(() => callback(error), (wipeError: Error) => callback(error || wipeError));
+  }
+
+  /**
+   * Decrypt and push the held ciphertext until the consumer has enough or it is exhausted
+   */
+  private async produce(): Promise<void> {
+    for (;;) {
+      const ciphertext = await this.ciphertext.next();
+      if (!ciphertext) {
+        this.decryptor!.destroy();
+        await this.ciphertext.clear();
+        this.push(null);
+        return;
+      }
+
+      const plaintext = Buffer.alloc(ciphertext.length);
+      this.decryptor!.process(ciphertext, plaintext);
+      if (!this.push(plaintext)) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Create a stream that encrypts its input into git-crypt format
+ * (with the latest entry of a key file), for use with createPipeline().
+ * This is a Duplex rather than a Transform: no output can be produced until
+ * the input has ended, and it is then read back at the consumer's pace.
+ */
+export function createEncryptStream(key: KeyFile | KeyEntry, options: EncryptStreamOptions = {}): Duplex {
+  return new EncryptStream(getLatestKey(key), options.spillThreshold ?? DEFAULT_SPILL_THRESHOLD);
+}
+
+/**
+ * Create a stream that decrypts a file in git-crypt format, for use with
+ * createPipeline(). With a single key entry the plaintext is streamed as it
+ * is decrypted and checked at the end, like git-crypt's smudge. With
+ * `verifyFirst`, or a key file with several versions (which are told apart
+ * like tryDecryptBlob() does), nothing is output until the input has ended.
+ */
+export function createDecryptStream(key: KeyFile | KeyEntry, options: DecryptStreamOptions = {}): Duplex {
+  const entries = key instanceof KeyEntry ? [key] : key.getVersions().map(version => key.get(version)!);
+  if (entries.length === 0) {
+    throw new GitCryptError('key file is empty');
+  }
+  if (entries.length === 1 && !options.verifyFirst) {
+    return new DecryptStream(entries[0]);
+  }
+  return new VerifiedDecryptStream(entries, options.spillThreshold ?? DEFAULT_SPILL_THRESHOLD);
+}
@@ -0,0 +1,331 @@
+/*
+ * Browser build of the git-crypt library: reads key files and encrypts or
+ * decrypts files in the git-crypt format with the Web Crypto API, using only
+ * Uint8Array and no Node.js modules
+ * Reference: git-crypt/crypto.cpp, clean/smudge in git-crypt/commands.cpp
+ */
+
+import {
+  AES_KEY_LEN,
+  HMAC_KEY_LEN,
+  KeyEntryData,
+  KeyFileData,
+  MalformedKeyFileError,
+  IncompatibleKeyFileError,
+  parseKeyFileData,
+  parseLegacyKeyFileData
+} from './keyFormat';
+
+export {
+  AES_KEY_LEN,
+  HMAC_KEY_LEN,
+  MalformedKeyFileError,
+  IncompatibleKeyFileError,
+  parseKeyFileData,
+  parseLegacyKeyFileData
+};
+
+export type { KeyEntryData, KeyFileData };
+
+export const NONCE_LEN = 12;
+export const HMAC_SHA1_LEN = 20;
+export const MAX_CRYPT_BYTES = 0x100000000 * 16; // Don't encrypt more than this or the CTR value will repeat (2^32 * 16)
+
+const BLOCK_LEN = 16;
+
+/**
+ * Header that identifies an encrypted file
+ */
+export const GITCRYPT_FILE_HEADER = new Uint8Array([0, ...Array.from('GITCRYPT', c => c.charCodeAt(0)), 0]);
+
+/**
+ * Length of the header plus the nonce that follows it
+ */
+const ENCRYPTED_HEADER_LEN = GITCRYPT_FILE_HEADER.length + NONCE_LEN;
+
+/**
+ * Error for failed Web Crypto operations and files that cannot be decrypted
+ */
+export class WebCryptoError extends Error {
+  public readonly where: string;
+
+  constructor(where: string, message: string) {
+    super(`${where}: ${message}`);
+    this.name = 'WebCryptoError';
+    this.where = where;
+  }
+}
+
+/**
+ * Result of decrypting an encrypted file
+ */
+export interface DecryptResult {
+  plaintext: Uint8Array;
+  /** Whether the HMAC of the plaintext matches the nonce */
+  verified: boolean;
+  /** Version of the key entry that produced the plaintext */
+  version: number;
+}
+
+/**
+ * Get the platform's SubtleCrypto, which is only available in secure contexts
+ */
+function getSubtleCrypto(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new WebCryptoError('getSubtleCrypto', 'the Web Crypto API is not available');
+  }
+  return subtle;
+}
+
+/**
+ * Copy bytes into a fresh ArrayBuffer, as accepted by SubtleCrypto
+ */
+function toBufferSource(data: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(data.length);
+  new Uint8Array(buffer).set(data);
+  return buffer;
+}
+
+/**
+ * Constant-time comparison of two byte arrays
+ */
+function leaklessEquals(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Generate cryptographically secure random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  if (!globalThis.crypto?.getRandomValues) {
+    throw new WebCryptoError('randomBytes', 'the Web Crypto API is not available');
+  }
+
+  const buffer = new Uint8Array(length);
+  // getRandomValues() fills at most 65536 bytes per call
+  for (let offset = 0; offset < length; offset += 65536) {
+    globalThis.crypto.getRandomValues(buffer.subarray(offset, offset + 65536));
+  }
+  return buffer;
+}
+
+/**
+ * Encrypt or decrypt data with AES-CTR, starting at the given byte offset of the stream.
+ * The counter block is git-crypt's: the nonce followed by the (big-endian) 32-bit block number.
+ */
+export async function aesCtrProcess(
+  aesKey: Uint8Array,
+  nonce: Uint8Array,
+  data: Uint8Array,
+  offset = 0
+): Promise<Uint8Array> {
+  if (aesKey.length !== AES_KEY_LEN) {
+    throw new WebCryptoError('aesCtrProcess', `Invalid key length: ${aesKey.length}, expected ${AES_KEY_LEN}`);
+  }
+  if (nonce.length !== NONCE_LEN) {
+    throw new WebCryptoError('aesCtrProcess', `Invalid nonce length: ${nonce.length}, expected ${NONCE_LEN}`);
+  }
+  if (!Number.isSafeInteger(offset) || offset < 0 || offset >= MAX_CRYPT_BYTES) {
+    throw new WebCryptoError('aesCtrProcess', `Invalid offset: ${offset}`);
+  }
+  if (offset + data.length >= MAX_CRYPT_BYTES) {
+    throw new WebCryptoError('aesCtrProcess', 'Exceeded maximum secure encryption length');
+  }
+
+  const counter = new Uint8Array(BLOCK_LEN);
+  counter.set(nonce, 0);
+  new DataView(counter.buffer).setUint32(NONCE_LEN, Math.floor(offset / BLOCK_LEN));
+
+  // Start the input on a block boundary; the padding is dropped from the output
+  const skip = offset % BLOCK_LEN;
+  const input = new Uint8Array(skip + data.length);
+  input.set(data, skip);
+
+  const subtle = getSubtleCrypto();
+  const keyBytes = toBufferSource(aesKey);
+  try {
+    const key = await subtle.importKey('raw', keyBytes, { name: 'AES-CTR' }, false, ['encrypt']);
+    // A counter length of 32 bits increments only the block number, like git-crypt
+    const output = await subtle.encrypt({ name: 'AES-CTR', counter, length: 32 }, key, input);
+    return new Uint8Array(output, skip);
+  } catch (error) {
+    throw new WebCryptoError('aesCtrProcess', `AES-CTR failed: ${error}`);
+  } finally {
+    new Uint8Array(keyBytes).fill(0);
+    input.fill(0);
+  }
+}
+
+/**
+ * Compute HMAC-SHA1 of data
+ */
+export async function hmacSha1(hmacKey: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const subtle = getSubtleCrypto();
+  const keyBytes = toBufferSource(hmacKey);
+  try {
+    const key = await subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    return new Uint8Array(await subtle.sign('HMAC', key, toBufferSource(data)));
+  } catch (error) {
+    throw new WebCryptoError('hmacSha1', `HMAC failed: ${error}`);
+  } finally {
+    new Uint8Array(keyBytes).fill(0);
+  }
+}
+
+/**
+ * Parse a key file, in the current or the legacy format
+ */
+export function parseKeyFile(data: Uint8Array): KeyFileData {
+  try {
+    return parseKeyFileData(data);
+  } catch (error) {
+    if (error instanceof MalformedKeyFileError || error instanceof IncompatibleKeyFileError) {
+      try {
+        return parseLegacyKeyFileData(data);
+      } catch (legacyError) {
+        throw error; // Throw original error
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate a new random key entry
+ */
+export function generateKey(): { aesKey: Uint8Array; hmacKey: Uint8Array } {
+  return {
+    aesKey: randomBytes(AES_KEY_LEN),
+    hmacKey: randomBytes(HMAC_KEY_LEN)
+  };
+}
+
+/**
+ * Check whether data starts with the git-crypt header and a complete nonce
+ */
+export function isEncryptedBlob(data: Uint8Array): boolean {
+  return data.length >= ENCRYPTED_HEADER_LEN &&
+    leaklessEquals(data.subarray(0, GITCRYPT_FILE_HEADER.length), GITCRYPT_FILE_HEADER);
+}
+
+/**
+ * Get the entries of a key file, latest version first
+ */
+function getEntries(key: KeyFileData | KeyEntryData): KeyEntryData[] {
+  if (!('entries' in key)) {
+    return [key];
+  }
+  if (key.entries.length === 0) {
+    throw new WebCryptoError('getEntries', 'key file is empty');
+  }
+  return [...key.entries].sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Compute the synthetic nonce for a file: the truncated HMAC-SHA1 of its contents
+ */
+async function computeNonce(entry: KeyEntryData, plaintext: Uint8Array): Promise<Uint8Array> {
+  return (await hmacSha1(entry.hmacKey, plaintext)).subarray(0, NONCE_LEN);
+}
+
+/**
+ * Encrypt plaintext into the exact bytes git-crypt would commit,
+ * using the latest entry of a key file
+ */
+export async function encryptBlob(key: KeyFileData | KeyEntryData, plaintext: Uint8Array): Promise<Uint8Array> {
+  const entry = getEntries(key)[0];
+  if (plaintext.length >= MAX_CRYPT_BYTES) {
+    throw new WebCryptoError('encryptBlob', 'file too long to encrypt securely');
+  }
+
+  const nonce = await computeNonce(entry, plaintext);
+  const output = new Uint8Array(ENCRYPTED_HEADER_LEN + plaintext.length);
+  output.set(GITCRYPT_FILE_HEADER, 0);
+  output.set(nonce, GITCRYPT_FILE_HEADER.length);
+  output.set(await aesCtrProcess(entry.aesKey, nonce, plaintext), ENCRYPTED_HEADER_LEN);
+  return output;
+}
+
+/**
+ * Decrypt an encrypted file without throwing if verification fails.
+ * Each entry of a key file is tried, latest first, until the HMAC matches;
+ * if none does, the result of the latest entry is returned unverified.
+ */
+export async function tryDecryptBlob(key: KeyFileData | KeyEntryData, encrypted: Uint8Array): Promise<DecryptResult> {
+  if (!isEncryptedBlob(encrypted)) {
+    throw new WebCryptoError('tryDecryptBlob', 'not a git-crypt encrypted file');
+  }
+
+  const nonce = encrypted.subarray(GITCRYPT_FILE_HEADER.length, ENCRYPTED_HEADER_LEN);
+  const ciphertext = encrypted.subarray(ENCRYPTED_HEADER_LEN);
+
+  let fallback: DecryptResult | null = null;
+  for (const entry of getEntries(key)) {
+    const plaintext = await aesCtrProcess(entry.aesKey, nonce, ciphertext);
+    const result = {
+      plaintext,
+      verified: leaklessEquals(await computeNonce(entry, plaintext), nonce),
+      version: entry.version
+    };
+    if (result.verified) {
+      return result;
+    }
+    if (!fallback) {
+      fallback = result;
+    }
+  }
+  return fallback!;
+}
+
+/**
+ * Decrypt a file in git-crypt format, failing if it does not verify
+ */
+export async function decryptBlob(key: KeyFileData | KeyEntryData, encrypted: Uint8Array): Promise<Uint8Array> {
+  const result = await tryDecryptBlob(key, encrypted);
+  if (!result.verified) {
+    throw new WebCryptoError('decryptBlob', 'encrypted file has been tampered with');
+  }
+  return result.plaintext;
+}
+
+/**
+ * Browser-compatible API (subset of functionality)
+ */
+export const browser = {
+  generateKey,
+  parseKeyFile,
+  isEncryptedBlob,
+  encryptBlob,
+  decryptBlob,
+  tryDecryptBlob,
+
+  // Raw AES-CTR on ArrayBuffers (use encryptBlob()/decryptBlob() for the git-crypt file format)
+  async encryptBuffer(
+    input: ArrayBuffer,
+    aesKey: Uint8Array,
+    hmacKey: Uint8Array,
+    nonce?: Uint8Array
+  ): Promise<ArrayBuffer> {
+    const output = await aesCtrProcess(aesKey, nonce || randomBytes(NONCE_LEN), new Uint8Array(input));
+    return output.slice().buffer;
+  },
+
+  async decryptBuffer(
+    input: ArrayBuffer,
+    aesKey: Uint8Array,
+    hmacKey: Uint8Array,
+    nonce: Uint8Array
+  ): Promise<ArrayBuffer> {
+    const output = await aesCtrProcess(aesKey, nonce, new Uint8Array(input));
+    return output.slice().buffer;
+  }
+};
@@ -7,7 +7,7 @@
 import { main } from './gitCrypt';
 
 // Run the main function with command line arguments
-main(process.argv).then(exitCode => {
+main(process.argv.slice(1)).then(exitCode => {
   process.exit(exitCode);
 }).catch(error => {
   console.error(`Unexpected error: ${error}`);
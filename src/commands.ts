@@ -4,8 +4,9 @@
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { Readable, Writable } from 'stream';
+import { Duplex, Readable, Writable } from 'stream';
 import {
   SystemError,
   GitCryptError,
@@ -18,7 +19,11 @@ import {
   isDirectory,
   getDirectoryContents,
   escapeShellArg,
-  getExecutablePath
+  getGitCryptCommand,
+  collectStream,
+  readStreamBytes,
+  isStreamEnded,
+  writeBuffer
 } from './util';
 import { Coprocess } from './coprocess';
 import {
@@ -29,18 +34,65 @@ import {
   IncompatibleKeyFileError
 } from './key';
 import {
-  AesCtrEncryptor,
   AesCtrDecryptor,
   randomBytes,
   initCrypto,
   CryptoError
 } from './crypto';
+import { parseOptions } from './parseOptions';
+import { WorkerPool, transferList } from './workerPool';
+import type { SmudgeTask, SmudgeResult } from './smudgeWorker';
+import {
+  readPacketList,
+  readPacketContent,
+  readPacketChunks,
+  writePacketList,
+  writePacketData,
+  writePacketContent,
+  encodePacketList,
+  encodePacketContent,
+  PKT_LINE_MAX_DATA_LEN
+} from './pktLine';
+import {
+  GITCRYPT_FILE_HEADER,
+  ENCRYPTED_HEADER_LEN,
+  createEncryptStream,
+  createDecryptStream,
+  encryptBlob,
+  isEncryptedBlob,
+  tryDecryptBlob
+} from './blob';
+import { createPipeline } from './fileStream';
+import {
+  GpgError,
+  gpgListSecretKeys,
+  gpgDecryptFromFile,
+  gpgLookupKey,
+  gpgGetUid,
+  gpgEncryptToFile
+} from './gpg';
 
 /**
  * Git checkout batch size for efficiency
  */
 const GIT_CHECKOUT_BATCH_SIZE = 100;
 
+/**
+ * Magic bytes at the start of a key file
+ */
+const KEY_FILE_MAGIC = Buffer.from('\0GITCRYPTKEY', 'binary');
+
+/**
+ * Smallest file the filter process decrypts in the background when git allows it to delay
+ */
+const DELAYED_SMUDGE_MIN_BYTES = 64 * 1024;
+
+/**
+ * Most bytes of encrypted files the filter process holds for delayed smudging
+ * at once; files that would exceed it are smudged straight away
+ */
+const DELAYED_SMUDGE_MAX_BYTES = 32 * 1024 * 1024;
+
 /**
  * Command error with exit code
  */
@@ -54,6 +106,28 @@ export class CommandError extends Error {
   }
 }
 
+/**
+ * Options for running a command against a repository
+ */
+export interface CommandOptions {
+  /** Working directory inside the repository (defaults to the process working directory) */
+  cwd?: string;
+}
+
+/**
+ * Resolve a path relative to the repository working directory
+ */
+function repoPath(cwd: string | undefined, ...segments: string[]): string {
+  return cwd ? path.join(cwd, ...segments) : path.join(...segments);
+}
+
+/**
+ * Resolve a path given on the command line, which may be absolute, against the working directory
+ */
+function resolvePath(cwd: string | undefined, filePath: string): string {
+  return cwd ? path.resolve(cwd, filePath) : filePath;
+}
+
 /**
  * Get attribute name for key
  */
@@ -107,8 +181,8 @@ async function getGitVersion(): Promise<number[]> {
 /**
  * Set git config value
  */
-async function gitConfig(name: string, value: string): Promise<void> {
-  const result = await execCommand(['git', 'config', name, value]);
+async function gitConfig(name: string, value: string, cwd?: string): Promise<void> {
+  const result = await execCommand(['git', 'config', name, value], { cwd });
   if (result !== 0) {
     throw new CommandError("'git config' failed");
   }
@@ -117,8 +191,8 @@ async function gitConfig(name: string, value: string): Promise<void> {
 /**
  * Check if git config exists
  */
-async function gitHasConfig(name: string): Promise<boolean> {
-  const result = await execCommandWithOutput(['git', 'config', '--get-all', name]);
+async function gitHasConfig(name: string, cwd?: string): Promise<boolean> {
+  const result = await execCommandWithOutput(['git', 'config', '--get-all', name], { cwd });
   switch (result.exitCode) {
     case 0: return true;
     case 1: return false;
@@ -129,8 +203,8 @@ async function gitHasConfig(name: string): Promise<boolean> {
 /**
  * Remove git config section
  */
-async function gitDeconfig(name: string): Promise<void> {
-  const result = await execCommand(['git', 'config', '--remove-section', name]);
+async function gitDeconfig(name: string, cwd?: string): Promise<void> {
+  const result = await execCommand(['git', 'config', '--remove-section', name], { cwd });
   if (result !== 0) {
     throw new CommandError("'git config' failed");
   }
@@ -139,47 +213,51 @@ async function gitDeconfig(name: string): Promise<void> {
 /**
  * Configure git filters for encryption/decryption
  */
-async function configureGitFilters(keyName?: string): Promise<void> {
-  const escapedGitCryptPath = escapeShellArg(getExecutablePath());
+async function configureGitFilters(keyName?: string, cwd?: string): Promise<void> {
+  const gitCryptCommand = getGitCryptCommand();
   
   if (keyName) {
     const filterName = `git-crypt-${keyName}`;
     const diffName = `git-crypt-${keyName}`;
+    const keyNameArg = escapeShellArg(`--key-name=${keyName}`);
     
-    await gitConfig(`filter.${filterName}.smudge`, `${escapedGitCryptPath} smudge --key-name=${keyName}`);
-    await gitConfig(`filter.${filterName}.clean`, `${escapedGitCryptPath} clean --key-name=${keyName}`);
-    await gitConfig(`filter.${filterName}.required`, 'true');
-    await gitConfig(`diff.${diffName}.textconv`, `${escapedGitCryptPath} diff --key-name=${keyName}`);
+    await gitConfig(`filter.${filterName}.smudge`, `${gitCryptCommand} smudge ${keyNameArg}`, cwd);
+    await gitConfig(`filter.${filterName}.clean`, `${gitCryptCommand} clean ${keyNameArg}`, cwd);
+    await gitConfig(`filter.${filterName}.process`, `${gitCryptCommand} filter-process ${keyNameArg}`, cwd);
+    await gitConfig(`filter.${filterName}.required`, 'true', cwd);
+    await gitConfig(`diff.${diffName}.textconv`, `${gitCryptCommand} diff ${keyNameArg}`, cwd);
   } else {
-    await gitConfig('filter.git-crypt.smudge', `${escapedGitCryptPath} smudge`);
-    await gitConfig('filter.git-crypt.clean', `${escapedGitCryptPath} clean`);
-    await gitConfig('filter.git-crypt.required', 'true');
-    await gitConfig('diff.git-crypt.textconv', `${escapedGitCryptPath} diff`);
+    await gitConfig('filter.git-crypt.smudge', `${gitCryptCommand} smudge`, cwd);
+    await gitConfig('filter.git-crypt.clean', `${gitCryptCommand} clean`, cwd);
+    await gitConfig('filter.git-crypt.process', `${gitCryptCommand} filter-process`, cwd);
+    await gitConfig('filter.git-crypt.required', 'true', cwd);
+    await gitConfig('diff.git-crypt.textconv', `${gitCryptCommand} diff`, cwd);
   }
 }
 
 /**
  * Deconfigure git filters
  */
-async function deconfigureGitFilters(keyName?: string): Promise<void> {
+async function deconfigureGitFilters(keyName?: string, cwd?: string): Promise<void> {
   const attributeName = getAttributeName(keyName);
   
-  if (await gitHasConfig(`filter.${attributeName}.smudge`) ||
-      await gitHasConfig(`filter.${attributeName}.clean`) ||
-      await gitHasConfig(`filter.${attributeName}.required`)) {
-    await gitDeconfig(`filter.${attributeName}`);
+  if (await gitHasConfig(`filter.${attributeName}.smudge`, cwd) ||
+      await gitHasConfig(`filter.${attributeName}.clean`, cwd) ||
+      await gitHasConfig(`filter.${attributeName}.process`, cwd) ||
+      await gitHasConfig(`filter.${attributeName}.required`, cwd)) {
+    await gitDeconfig(`filter.${attributeName}`, cwd);
   }
 
-  if (await gitHasConfig(`diff.${attributeName}.textconv`)) {
-    await gitDeconfig(`diff.${attributeName}`);
+  if (await gitHasConfig(`diff.${attributeName}.textconv`, cwd)) {
+    await gitDeconfig(`diff.${attributeName}`, cwd);
   }
 }
 
 /**
  * Get git status output
  */
-async function getGitStatus(): Promise<string> {
-  const result = await execCommandWithOutput(['git', 'status', '--porcelain']);
+async function getGitStatus(cwd?: string): Promise<string> {
+  const result = await execCommandWithOutput(['git', 'status', '--porcelain'], { cwd });
   if (result.exitCode !== 0) {
     throw new CommandError('Failed to get git status');
   }
@@ -189,28 +267,73 @@ async function getGitStatus(): Promise<string> {
 /**
  * Check if working directory is clean
  */
-async function isWorkingDirectoryClean(): Promise<boolean> {
-  const status = await getGitStatus();
+async function isWorkingDirectoryClean(cwd?: string): Promise<boolean> {
+  const status = await getGitStatus(cwd);
   return status.trim().length === 0;
 }
 
 /**
- * Get internal key path for a key name
+ * Locations of a repository, as reported by git
  */
-function getInternalKeyPath(keyName?: string): string {
-  const gitDir = '.git';
-  if (keyName) {
-    return path.join(gitDir, 'git-crypt', 'keys', keyName);
-  } else {
-    return path.join(gitDir, 'git-crypt', 'keys', 'default');
+interface RepoPaths {
+  /** Git directory shared by all linked worktrees */
+  gitCommonDir: string;
+  /** Top-level directory of the working tree */
+  topLevel: string;
+}
+
+/**
+ * Discover the repository containing the working directory
+ */
+async function getRepoPaths(cwd?: string): Promise<RepoPaths> {
+  // git rev-parse --git-common-dir --show-toplevel
+  const result = await execCommandWithOutput(['git', 'rev-parse', '--git-common-dir', '--show-toplevel'], { cwd });
+  const lines = result.output.split('\n');
+  if (result.exitCode !== 0 || lines.length < 2 || !lines[0] || !lines[1]) {
+    throw new CommandError("Error: 'git rev-parse' failed - is this a Git repository?");
+  }
+
+  // The common dir may be printed relative to the working directory
+  return {
+    gitCommonDir: path.resolve(cwd ?? '.', lines[0]),
+    topLevel: lines[1]
+  };
+}
+
+/**
+ * Get the path from the working directory to the top of the working tree ('' at the top)
+ */
+async function getPathToTop(cwd?: string): Promise<string> {
+  // git rev-parse --show-cdup
+  const result = await execCommandWithOutput(['git', 'rev-parse', '--show-cdup'], { cwd });
+  if (result.exitCode !== 0) {
+    throw new CommandError("'git rev-parse --show-cdup' failed - is this a Git repository?");
   }
+  return result.output.split('\n')[0];
+}
+
+/**
+ * Get internal key path for a key name.
+ * Keys live in the common git dir so that all linked worktrees share one unlock.
+ */
+async function getInternalKeyPath(keyName?: string, cwd?: string): Promise<string> {
+  const { gitCommonDir } = await getRepoPaths(cwd);
+  return path.join(gitCommonDir, 'git-crypt', 'keys', keyName || 'default');
+}
+
+/**
+ * Get repo state path (committed alongside the repository)
+ */
+async function getRepoStatePath(cwd?: string): Promise<string> {
+  const { topLevel } = await getRepoPaths(cwd);
+  return path.join(topLevel, '.git-crypt');
 }
 
 /**
  * Get repo keys path for GPG encrypted keys
  */
-function getRepoKeysPath(): string {
-  return '.git-crypt';
+async function getRepoKeysPath(cwd?: string): Promise<string> {
+  return path.join(await getRepoStatePath(cwd), 'keys');
 }
 
 /**
@@ -247,36 +370,6 @@ function versionAtLeast(current: number[], target: number[]): boolean {
   return true;
 }
 
-async function collectStream(stream: Readable): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-
-    const onData = (chunk: Buffer | string) => {
-      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-    };
-
-    const onError = (error: Error) => {
-      cleanup();
-      reject(error);
-    };
-
-    const onEnd = () => {
-      cleanup();
-      resolve(Buffer.concat(chunks));
-    };
-
-    const cleanup = () => {
-      stream.removeListener('data', onData);
-      stream.removeListener('error', onError);
-      stream.removeListener('end', onEnd);
-    };
-
-    stream.on('data', onData);
-    stream.once('error', onError);
-    stream.once('end', onEnd);
-  });
-}
-
 function parseLsFilesOutput(buffer: Buffer): LsFilesEntry[] {
   const entries: LsFilesEntry[] = [];
   if (buffer.length === 0) {
@@ -285,18 +378,19 @@ function parseLsFilesOutput(buffer: Buffer): LsFilesEntry[] {
 
   const records = buffer.toString('utf8').split('\0').filter(record => record.length > 0);
   for (const record of records) {
+    // <mode> SP <object> SP <stage> TAB <file>
     const firstSpace = record.indexOf(' ');
     const secondSpace = firstSpace === -1 ? -1 : record.indexOf(' ', firstSpace + 1);
-    const thirdSpace = secondSpace === -1 ? -1 : record.indexOf(' ', secondSpace + 1);
+    const tab = secondSpace === -1 ? -1 : record.indexOf('\t', secondSpace + 1);
 
-    if (firstSpace === -1 || secondSpace === -1 || thirdSpace === -1) {
+    if (firstSpace === -1 || secondSpace === -1 || tab === -1) {
       continue;
     }
 
     const mode = record.slice(0, firstSpace);
     const objectId = record.slice(firstSpace + 1, secondSpace);
-    const stage = record.slice(secondSpace + 1, thirdSpace);
-    const filename = record.slice(thirdSpace + 1);
+    const stage = record.slice(secondSpace + 1, tab);
+    const filename = record.slice(tab + 1);
     entries.push({ mode, objectId, stage, filename });
   }
 
@@ -315,27 +409,8 @@ function isGitFileMode(mode: string): boolean {
   return (parsed & 0o170000) === 0o100000;
 }
 
-function writeBuffer(stream: Writable, buffer: Buffer): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const onError = (error: Error) => {
-      stream.removeListener('error', onError);
-      reject(error);
-    };
-
-    stream.once('error', onError);
-    stream.write(buffer, (error) => {
-      stream.removeListener('error', onError);
-      if (error) {
-        reject(error);
-      } else {
-        resolve();
-      }
-    });
-  });
-}
-
-async function getFileAttributesSingle(filename: string): Promise<{ filter: string; diff: string }> {
-  const result = await execCommandWithOutput(['git', 'check-attr', 'filter', 'diff', '--', filename]);
+async function getFileAttributesSingle(filename: string, cwd?: string): Promise<{ filter: string; diff: string }> {
+  const result = await execCommandWithOutput(['git', 'check-attr', 'filter', 'diff', '--', filename], { cwd });
   if (result.exitCode !== 0) {
     throw new CommandError("'git check-attr' failed - is this a Git repository?");
   }
@@ -376,7 +451,16 @@ async function getFileAttributesSingle(filename: string): Promise<{ filter: stri
   return { filter: filterAttr, diff: diffAttr };
 }
 
-async function getFileAttributesBatch(filenames: string[]): Promise<Map<string, { filter: string; diff: string }>> {
+/**
+ * Get the filter and diff attributes of many files with a single git check-attr.
+ * If indexFile is given, attributes come from the .gitattributes files in that index
+ * instead of the working tree.
+ */
+async function getFileAttributesBatch(
+  filenames: string[],
+  indexFile?: string,
+  cwd?: string
+): Promise<Map<string, { filter: string; diff: string }>> {
   const attrMap = new Map<string, { filter: string; diff: string }>();
 
   if (filenames.length === 0) {
@@ -391,7 +475,14 @@ async function getFileAttributesBatch(filenames: string[]): Promise<Map<string,
   const stdin = checkAttr.stdinPipe();
   const stdout = checkAttr.stdoutPipe();
 
-  checkAttr.spawn(['git', 'check-attr', '--stdin', '-z', 'filter', 'diff']);
+  if (indexFile) {
+    checkAttr.spawn(['git', 'check-attr', '--cached', '--stdin', '-z', 'filter', 'diff'], {
+      cwd,
+      env: { ...process.env, GIT_INDEX_FILE: indexFile }
+    });
+  } else {
+    checkAttr.spawn(['git', 'check-attr', '--stdin', '-z', 'filter', 'diff'], { cwd });
+  }
 
   try {
     const payload: Buffer[] = [];
@@ -447,14 +538,19 @@ async function getFileAttributesBatch(filenames: string[]): Promise<Map<string,
 }
 
 /**
- * Get list of encrypted files for a key
+ * List the files staged in the index across the whole working tree
  */
-async function getEncryptedFiles(keyName?: string): Promise<string[]> {
-  const attributeName = getAttributeName(keyName);
+async function getIndexEntries(cwd?: string): Promise<LsFilesEntry[]> {
+  // git ls-files -csz -- PATH_TO_TOP
+  const command = ['git', 'ls-files', '-csz', '--'];
+  const pathToTop = await getPathToTop(cwd);
+  if (pathToTop) {
+    command.push(pathToTop);
+  }
 
   const lsProcess = new Coprocess();
   const lsStdout = lsProcess.stdoutPipe();
-  lsProcess.spawn(['git', 'ls-files', '-csz', '--']);
+  lsProcess.spawn(command, { cwd });
 
   let lsOutput: Buffer;
   let lsExitCode = 0;
@@ -479,57 +575,261 @@ async function getEncryptedFiles(keyName?: string): Promise<string[]> {
     throw new CommandError("'git ls-files' failed - is this a Git repository?");
   }
 
-  const entries = parseLsFilesOutput(lsOutput);
+  return parseLsFilesOutput(lsOutput);
+}
+
+/**
+ * Get list of encrypted files for a key
+ */
+async function getEncryptedFiles(keyName?: string, cwd?: string): Promise<string[]> {
+  const attributeName = getAttributeName(keyName);
+
+  const entries = await getIndexEntries(cwd);
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const attributes = await getFileAttributes(entries.map(entry => entry.filename), cwd);
+  const encryptedFiles: string[] = [];
+
+  for (const entry of entries) {
+    if (!isGitFileMode(entry.mode)) {
+      continue;
+    }
+
+    if (attributes.get(entry.filename)!.filter === attributeName) {
+      encryptedFiles.push(entry.filename);
+    }
+  }
+
+  return encryptedFiles;
+}
+
+/**
+ * Status of a file that git-crypt encrypts
+ */
+export interface EncryptedFileStatus {
+  /** Path relative to the working directory */
+  path: string;
+  /** Name of the key the file is encrypted with ('default' for the default key) */
+  keyName: string;
+  /** Whether the working copy is present and decrypted */
+  decrypted: boolean;
+  /** Whether the staged blob carries the git-crypt header */
+  indexEncrypted: boolean;
+}
+
+/**
+ * Get the key name selected by a filter attribute value, or null if it is not a git-crypt filter
+ */
+function getKeyNameFromAttribute(filter: string): string | null {
+  if (filter === 'git-crypt') {
+    return 'default';
+  }
+  if (filter.startsWith('git-crypt-')) {
+    return filter.slice('git-crypt-'.length);
+  }
+  return null;
+}
+
+/**
+ * Check whether a file in the working tree is present and not in encrypted form
+ */
+async function isWorkingCopyDecrypted(filename: string): Promise<boolean> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(filename, 'r');
+  } catch {
+    return false;
+  }
+
+  try {
+    const header = Buffer.alloc(GITCRYPT_FILE_HEADER.length);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    return !header.subarray(0, bytesRead).equals(GITCRYPT_FILE_HEADER);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Get the status of every file in the index that git-crypt encrypts, under any key
+ */
+export async function getEncryptedFileStatus(options: CommandOptions = {}): Promise<EncryptedFileStatus[]> {
+  const { cwd } = options;
+
+  // Conflicted files have several entries; the first one is enough to report on
+  const entries = (await getIndexEntries(cwd))
+    .filter((entry, i, all) => isGitFileMode(entry.mode) && (i === 0 || all[i - 1].filename !== entry.filename));
   if (entries.length === 0) {
     return [];
   }
 
+  const attributes = await getFileAttributes(entries.map(entry => entry.filename), cwd);
+  const statuses: EncryptedFileStatus[] = [];
+  const blobReader = new BlobHeaderReader(cwd);
+
+  try {
+    for (const entry of entries) {
+      const keyName = getKeyNameFromAttribute(attributes.get(entry.filename)!.filter);
+      if (keyName === null) {
+        continue;
+      }
+
+      statuses.push({
+        path: entry.filename,
+        keyName,
+        decrypted: await isWorkingCopyDecrypted(repoPath(cwd, entry.filename)),
+        indexEncrypted: await blobReader.isEncrypted(entry.objectId)
+      });
+    }
+  } finally {
+    await blobReader.close();
+  }
+
+  return statuses;
+}
+
+/**
+ * Get the filter and diff attributes of files, in one batch if git supports it
+ */
+async function getFileAttributes(
+  filenames: string[],
+  cwd?: string
+): Promise<Map<string, { filter: string; diff: string }>> {
   const gitVersion = await getGitVersion();
   const batchSupported = versionAtLeast(gitVersion, [1, 8, 5]);
 
   let batchAttributes: Map<string, { filter: string; diff: string }> | null = null;
   if (batchSupported) {
     try {
-      batchAttributes = await getFileAttributesBatch(entries.map(entry => entry.filename));
+      batchAttributes = await getFileAttributesBatch(filenames, undefined, cwd);
     } catch {
       batchAttributes = null;
     }
   }
 
-  const encryptedFiles: string[] = [];
+  const attributes = new Map<string, { filter: string; diff: string }>();
+  for (const filename of filenames) {
+    attributes.set(filename, batchAttributes?.get(filename) ?? await getFileAttributesSingle(filename, cwd));
+  }
+  return attributes;
+}
 
-  for (const entry of entries) {
-    if (!isGitFileMode(entry.mode)) {
-      continue;
-    }
+/**
+ * Run a command and capture its raw output
+ */
+async function execCommandWithBufferOutput(
+  args: string[],
+  env?: NodeJS.ProcessEnv,
+  cwd?: string
+): Promise<{ exitCode: number; output: Buffer }> {
+  const child = new Coprocess();
+  const stdout = child.stdoutPipe();
+  child.spawn(args, { cwd, env });
 
-    let filterAttr = '';
+  try {
+    const output = await collectStream(stdout);
+    return { exitCode: await child.wait(), output };
+  } finally {
+    child.closeStdout();
+  }
+}
 
-    if (batchAttributes) {
-      const attrs = batchAttributes.get(entry.filename);
-      if (attrs) {
-        filterAttr = attrs.filter;
-      } else {
-        const fallbackAttrs = await getFileAttributesSingle(entry.filename);
-        filterAttr = fallbackAttrs.filter;
+/**
+ * Size of the chunks in which the rest of a blob is skipped after reading its header
+ */
+const CAT_FILE_SKIP_CHUNK = 64 * 1024;
+
+/**
+ * A single 'git cat-file --batch' process that checks blobs one after another,
+ * instead of starting a process for each blob
+ */
+class BlobHeaderReader {
+  private readonly catFile = new Coprocess();
+  private readonly stdin: Writable;
+  private readonly stdout: Readable;
+
+  constructor(cwd?: string) {
+    this.stdin = this.catFile.stdinPipe();
+    this.stdout = this.catFile.stdoutPipe();
+    this.catFile.spawn(['git', 'cat-file', '--batch'], { cwd });
+  }
+
+  /**
+   * Check whether a blob in the object database starts with the git-crypt header
+   */
+  async isEncrypted(objectId: string): Promise<boolean> {
+    // Request: OBJECT_ID LF
+    // Response: OBJECT_ID SP TYPE SP SIZE LF CONTENTS LF, or OBJECT_ID SP missing LF
+    await writeBuffer(this.stdin, Buffer.from(`${objectId}\n`, 'utf8'));
+
+    const fields = (await this.readLine()).split(' ');
+    if (fields.length !== 3 || !/^\d+$/.test(fields[2])) {
+      throw new CommandError("'git cat-file' failed - is this a Git repository?");
+    }
+
+    const size = Number(fields[2]);
+    const header = await readStreamBytes(this.stdout, Math.min(GITCRYPT_FILE_HEADER.length, size));
+    // Skip the rest of the contents and the LF that ends them
+    let remaining = size - header.length + 1;
+    while (remaining > 0) {
+      const skipped = (await readStreamBytes(this.stdout, Math.min(CAT_FILE_SKIP_CHUNK, remaining))).length;
+      if (skipped === 0) {
+        throw new CommandError("'git cat-file' failed - is this a Git repository?");
       }
-    } else {
-      const attrs = await getFileAttributesSingle(entry.filename);
-      filterAttr = attrs.filter;
+      remaining -= skipped;
     }
 
-    if (filterAttr === attributeName) {
-      encryptedFiles.push(entry.filename);
+    return header.equals(GITCRYPT_FILE_HEADER);
+  }
+
+  /**
+   * Stop the process once all blobs have been checked
+   */
+  async close(): Promise<void> {
+    this.catFile.closeStdin();
+    try {
+      await collectStream(this.stdout);
+      await this.catFile.wait();
+    } finally {
+      this.catFile.closeStdout();
     }
   }
 
-  return encryptedFiles;
+  private async readLine(): Promise<string> {
+    const bytes: number[] = [];
+    for (;;) {
+      const next = await readStreamBytes(this.stdout, 1);
+      if (next.length === 0) {
+        throw new CommandError("'git cat-file' failed - is this a Git repository?");
+      }
+      if (next[0] === 0x0a) {
+        return Buffer.from(bytes).toString('utf8');
+      }
+      bytes.push(next[0]);
+    }
+  }
+}
+
+/**
+ * Check whether the staged version of a file is encrypted
+ */
+async function checkIfFileIsEncrypted(filename: string, blobReader: BlobHeaderReader, cwd?: string): Promise<boolean> {
+  // git ls-files -sz FILENAME
+  const result = await execCommandWithBufferOutput(['git', 'ls-files', '-sz', '--', filename], undefined, cwd);
+  if (result.exitCode !== 0) {
+    throw new CommandError("'git ls-files' failed - is this a Git repository?");
+  }
+
+  const entries = parseLsFilesOutput(result.output);
+  return entries.length > 0 && await blobReader.isEncrypted(entries[0].objectId);
 }
 
 /**
  * Git checkout files
  */
-async function gitCheckout(files: string[]): Promise<boolean> {
+async function gitCheckout(files: string[], cwd?: string): Promise<boolean> {
   if (files.length === 0) {
     return true;
   }
@@ -537,7 +837,7 @@ async function gitCheckout(files: string[]): Promise<boolean> {
   // Process files in batches to avoid command line length limits
   for (let i = 0; i < files.length; i += GIT_CHECKOUT_BATCH_SIZE) {
     const batch = files.slice(i, i + GIT_CHECKOUT_BATCH_SIZE);
-    const result = await execCommand(['git', 'checkout', 'HEAD', '--', ...batch]);
+    const result = await execCommand(['git', 'checkout', 'HEAD', '--', ...batch], { cwd });
     if (result !== 0) {
       return false;
     }
@@ -547,83 +847,996 @@ async function gitCheckout(files: string[]): Promise<boolean> {
 }
 
 /**
- * Initialize repository with git-crypt
+ * Read a key file from disk, with a friendly error if it cannot be opened
  */
-export async function init(args: string[]): Promise<number> {
-  let keyName: string | undefined;
-  
-  // Simple argument parsing
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '-k' || args[i] === '--key-name') {
-      keyName = args[i + 1];
-      i++; // skip next argument
-    } else {
-      throw new CommandError('Error: git-crypt init takes no arguments');
-    }
+async function readKeyFileData(keyPath: string, errorMessage: string): Promise<Buffer> {
+  try {
+    return await fs.promises.readFile(keyPath);
+  } catch {
+    throw new CommandError(errorMessage);
   }
+}
 
-  if (keyName) {
-    validateKeyNameOrThrow(keyName);
+/**
+ * Load a key from a legacy key file, an explicit key file, or the repository
+ */
+async function loadKey(
+  keyFile: KeyFile,
+  keyName?: string,
+  keyPath?: string,
+  legacyPath?: string,
+  cwd?: string
+): Promise<void> {
+  if (legacyPath) {
+    const data = await readKeyFileData(resolvePath(cwd, legacyPath), `Error: Unable to open key file: ${legacyPath}`);
+    await keyFile.loadLegacyFromBuffer(data);
+  } else if (keyPath) {
+    const data = await readKeyFileData(resolvePath(cwd, keyPath), `Error: Unable to open key file: ${keyPath}`);
+    await keyFile.loadFromBuffer(data);
+  } else {
+    const data = await readKeyFileData(
+      await getInternalKeyPath(keyName, cwd),
+      'Error: Unable to open key file - have you unlocked/initialized this repository yet?'
+    );
+    await keyFile.loadFromBuffer(data);
   }
+}
 
-  const internalKeyPath = getInternalKeyPath(keyName);
-  
-  if (await fileExists(internalKeyPath)) {
-    throw new CommandError('Error: this repository has already been initialized with git-crypt.');
+/**
+ * List the versions of a key stored in the repo keys directory, latest first
+ */
+async function getRepoKeyVersions(keyName: string | undefined, keysPath: string): Promise<number[]> {
+  const keyDir = path.join(keysPath, keyName || 'default');
+  if (!await isDirectory(keyDir)) {
+    return [];
   }
 
-  // Generate a key and install it
-  console.log('Generating key...');
-  const keyFile = new KeyFile();
-  keyFile.setKeyName(keyName || null);
-  keyFile.generate();
+  return (await getDirectoryContents(keyDir))
+    .filter(dirent => /^\d+$/.test(dirent))
+    .map(dirent => parseInt(dirent, 10))
+    .sort((a, b) => b - a);
+}
 
-  await mkdirParent(internalKeyPath);
-  const success = await keyFile.storeToFile(internalKeyPath);
-  if (!success) {
-    throw new CommandError(`Error: ${internalKeyPath}: unable to write key file`);
+/**
+ * List the fingerprints of the collaborators a key version is encrypted to
+ */
+async function getRepoKeyCollaborators(keyName: string | undefined, version: number, keysPath: string): Promise<string[]> {
+  const versionDir = path.join(keysPath, keyName || 'default', String(version));
+  if (!await isDirectory(versionDir)) {
+    return [];
   }
 
-  // Configure git
-  await configureGitFilters(keyName);
+  return (await getDirectoryContents(versionDir))
+    .filter(dirent => dirent.endsWith('.gpg'))
+    .map(dirent => dirent.slice(0, -'.gpg'.length))
+    .sort();
+}
 
-  console.log('git-crypt is now configured to use your key.');
-  console.log('');
-  console.log('You can now edit your .gitattributes file to specify which files should');
-  console.log('be encrypted. See `git-crypt help` for more information.');
+/**
+ * Load a key file from a stream such as standard input. Keys piped from a secret
+ * store are often base64-encoded, so text that decodes to a key file is accepted too.
+ */
+async function loadKeyFromStream(keyFile: KeyFile, input: Readable): Promise<void> {
+  const head = await readStreamBytes(input, KEY_FILE_MAGIC.length);
+  if (head.equals(KEY_FILE_MAGIC)) {
+    input.unshift(head);
+    await keyFile.load(input);
+    return;
+  }
 
-  return 0;
+  const data = Buffer.concat([head, await collectStream(input)]);
+  const text = data.toString('latin1').replace(/\s+/g, '');
+  const decoded = /^[A-Za-z0-9+/]+={0,2}$/.test(text) ? Buffer.from(text, 'base64') : null;
+
+  try {
+    if (decoded && decoded.subarray(0, KEY_FILE_MAGIC.length).equals(KEY_FILE_MAGIC)) {
+      await keyFile.load(Readable.from([decoded]));
+    } else {
+      await keyFile.load(Readable.from([data]));
+    }
+  } finally {
+    data.fill(0);
+    decoded?.fill(0);
+  }
 }
 
 /**
- * Unlock repository with key file(s)
+ * Decrypt every version of a key that one of the local GPG secret keys can open.
+ * Each version is stored in the repo as .git-crypt/keys/<keyname>/<version>/<fingerprint>.gpg
  */
-export async function unlock(args: string[]): Promise<number> {
-  // Check if working directory is clean
-  if (!await isWorkingDirectoryClean()) {
-    throw new CommandError(
-      'Error: Working directory not clean.\n' +
-      'Please commit your changes or \'git stash\' them before running \'git-crypt unlock\'.'
-    );
-  }
+async function decryptRepoKey(
+  keyName: string | undefined,
+  secretKeys: string[],
+  keysPath: string,
+  cwd?: string
+): Promise<KeyFile | null> {
+  const keyDir = path.join(keysPath, keyName || 'default');
+  const versions = await getRepoKeyVersions(keyName, keysPath);
 
-  // Load key files
-  const keyFiles: KeyFile[] = [];
-  
-  if (args.length > 0) {
-    // Read from symmetric key file(s)
-    for (const keyFilePath of args) {
-      const keyFile = new KeyFile();
-      
+  const keyFile = new KeyFile();
+  keyFile.setKeyName(keyName || null);
+  let gpgError: GpgError | null = null;
+
+  for (const version of versions) {
+    for (const secretKey of secretKeys) {
+      const encryptedKeyPath = path.join(keyDir, String(version), `${secretKey}.gpg`);
+      if (!await fileExists(encryptedKeyPath)) {
+        continue;
+      }
+
+      let decryptedContents: Buffer;
       try {
-        let success: boolean;
-        if (keyFilePath === '-') {
-          // Read from stdin (not implemented in this simplified version)
-          throw new CommandError('Reading from stdin not supported in this implementation');
-        } else {
-          success = await keyFile.loadFromFile(keyFilePath);
+        decryptedContents = await gpgDecryptFromFile(encryptedKeyPath, cwd);
+      } catch (error) {
+        if (error instanceof GpgError) {
+          gpgError = error;
+          continue;
         }
-        
+        throw error;
+      }
+
+      const thisVersionKeyFile = new KeyFile();
+      await thisVersionKeyFile.loadFromBuffer(decryptedContents);
+      const thisVersionEntry = thisVersionKeyFile.get(version);
+      if (!thisVersionEntry) {
+        throw new CommandError('Error: GPG-encrypted keyfile is malformed because it does not contain expected key version');
+      }
+      if ((thisVersionKeyFile.getKeyName() || undefined) !== keyName) {
+        throw new CommandError('Error: GPG-encrypted keyfile is malformed because it does not contain expected key name');
+      }
+      keyFile.add(thisVersionEntry);
+      break;
+    }
+  }
+
+  if (keyFile.isFilled()) {
+    return keyFile;
+  }
+  if (gpgError) {
+    throw gpgError;
+  }
+  return null;
+}
+
+/**
+ * List the keys stored in the repo keys directory (undefined for the default key)
+ */
+async function getRepoKeyNames(keysPath: string): Promise<Array<string | undefined>> {
+  const keyNames: Array<string | undefined> = [];
+
+  if (!await isDirectory(keysPath)) {
+    return keyNames;
+  }
+
+  for (const dirent of (await getDirectoryContents(keysPath)).sort()) {
+    if (!await isDirectory(path.join(keysPath, dirent))) {
+      continue;
+    }
+
+    if (dirent === 'default') {
+      keyNames.unshift(undefined);
+    } else if (validateKeyName(dirent).valid) {
+      keyNames.push(dirent);
+    }
+  }
+
+  return keyNames;
+}
+
+/**
+ * Decrypt all keys in the repo that one of the local GPG secret keys can open
+ */
+async function decryptRepoKeys(secretKeys: string[], keysPath: string, cwd?: string): Promise<KeyFile[]> {
+  const keyFiles: KeyFile[] = [];
+
+  for (const keyName of await getRepoKeyNames(keysPath)) {
+    const keyFile = await decryptRepoKey(keyName, secretKeys, keysPath, cwd);
+    if (keyFile) {
+      keyFiles.push(keyFile);
+    }
+  }
+
+  return keyFiles;
+}
+
+/**
+ * Encrypt a key entry for each collaborator into the repo keys directory,
+ * returning the paths of the files that were created
+ */
+async function encryptRepoKey(
+  keyName: string | undefined,
+  key: KeyEntry,
+  collabKeys: Array<{ fingerprint: string; trusted: boolean }>,
+  keysPath: string,
+  cwd?: string
+): Promise<string[]> {
+  const thisVersionKeyFile = new KeyFile();
+  thisVersionKeyFile.setKeyName(keyName || null);
+  thisVersionKeyFile.add(key);
+  const keyFileData = Buffer.from(await thisVersionKeyFile.storeToString(), 'binary');
+
+  const newFiles: string[] = [];
+  try {
+    for (const { fingerprint, trusted } of collabKeys) {
+      const encryptedKeyPath = path.join(keysPath, keyName || 'default', String(key.version), `${fingerprint}.gpg`);
+      if (await fileExists(encryptedKeyPath)) {
+        continue;
+      }
+
+      await mkdirParent(encryptedKeyPath);
+      await gpgEncryptToFile(encryptedKeyPath, fingerprint, trusted, keyFileData, cwd);
+      newFiles.push(encryptedKeyPath);
+    }
+  } finally {
+    keyFileData.fill(0);
+  }
+
+  return newFiles;
+}
+
+/**
+ * Add a new version to a key and install it, so that the clean filter encrypts with it
+ * from now on. The new version is encrypted for the given collaborators, and every
+ * encrypted file is staged re-encrypted with it. Returns the paths of the staged files.
+ */
+async function rotateKeyVersion(
+  keyName: string | undefined,
+  keyFile: KeyFile,
+  collaborators: string[],
+  keysPath: string,
+  cwd?: string
+): Promise<string[]> {
+  const newKey = keyFile.generateNextVersion();
+  const internalKeyPath = await getInternalKeyPath(keyName, cwd);
+  if (!await keyFile.storeToFile(internalKeyPath)) {
+    throw new CommandError(`Error: Unable to write key file: ${internalKeyPath}`);
+  }
+
+  // The collaborators were vetted when they were added, so their keys are trusted
+  const newFiles = await encryptRepoKey(
+    keyName,
+    newKey,
+    collaborators.map(fingerprint => ({ fingerprint, trusted: true })),
+    keysPath,
+    cwd
+  );
+
+  if (newFiles.length > 0 && await execCommand(['git', 'add', '--', ...newFiles], { cwd }) !== 0) {
+    throw new CommandError("Error: 'git add' failed");
+  }
+
+  // Run every encrypted file through the clean filter again
+  const encryptedFiles = await getEncryptedFiles(keyName, cwd);
+  for (let i = 0; i < encryptedFiles.length; i += GIT_CHECKOUT_BATCH_SIZE) {
+    const batch = encryptedFiles.slice(i, i + GIT_CHECKOUT_BATCH_SIZE);
+    if (await execCommand(['git', 'add', '--renormalize', '--', ...batch], { cwd }) !== 0) {
+      throw new CommandError("Error: 'git add' failed");
+    }
+  }
+
+  printUpstreamRotationWarning();
+  return [...newFiles, ...encryptedFiles];
+}
+
+/**
+ * Warn that files re-encrypted with a rotated key cannot be read by upstream git-crypt,
+ * which always decrypts with key version 0 and only unlocks from .git-crypt/keys/<name>/0/
+ */
+function printUpstreamRotationWarning(): void {
+  console.log('Warning: files re-encrypted with the new key version cannot be decrypted by the');
+  console.log('original git-crypt, which only ever uses key version 0.  Collaborators still using');
+  console.log('it will get "encrypted file has been tampered with" for these files.');
+}
+
+/**
+ * Write the .gitattributes file that keeps the repo state directory from being encrypted.
+ * Returns true if the file was created.
+ */
+async function writeStateGitattributes(statePath: string): Promise<boolean> {
+  const stateGitattributesPath = path.join(statePath, '.gitattributes');
+  if (await fileExists(stateGitattributesPath)) {
+    return false;
+  }
+
+  try {
+    await fs.promises.writeFile(
+      stateGitattributesPath,
+      '# Do not edit this file.  To specify the files to encrypt, create your own\n' +
+      '# .gitattributes file in the directory where your files are.\n' +
+      '* !filter !diff\n' +
+      '*.gpg binary\n'
+    );
+  } catch {
+    throw new CommandError(`Error: unable to write ${stateGitattributesPath}`);
+  }
+  return true;
+}
+
+/**
+ * Parse options shared by the plumbing commands (clean, smudge, diff)
+ */
+function parsePlumbingOptions(args: string[]): { keyName?: string; keyPath?: string; argi: number } {
+  const parsed = parseOptions([
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true },
+    { name: '--key-file', key: 'keyPath', takesValue: true }
+  ], args);
+
+  return {
+    keyName: parsed.values.keyName,
+    keyPath: parsed.values.keyPath,
+    argi: parsed.argi
+  };
+}
+
+/**
+ * Get the configured size beyond which the clean filter keeps its input
+ * in a temporary file while it is hashed, or undefined for the default
+ */
+async function getCleanSpillThreshold(cwd?: string): Promise<number | undefined> {
+  const spillThreshold = await gitGetConfig('git-crypt.cleanSpillThreshold', 'int', cwd);
+  return spillThreshold !== null ? Number(spillThreshold) : undefined;
+}
+
+/**
+ * Encrypt contents of stdin and write to stdout
+ */
+export async function clean(
+  args: string[],
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+  options: CommandOptions = {}
+): Promise<number> {
+  const { cwd } = options;
+  const { keyName, keyPath, argi } = parsePlumbingOptions(args);
+  let legacyKeyPath: string | undefined;
+
+  if (!keyName && !keyPath && args.length - argi === 1) {
+    // Deprecated - for compatibility with pre-0.4
+    legacyKeyPath = args[argi];
+  } else if (args.length - argi !== 0) {
+    console.error('Usage: git-crypt clean [--key-name=NAME] [--key-file=PATH]');
+    return 2;
+  }
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, keyPath, legacyKeyPath, cwd);
+
+  try {
+    const key = keyFile.getLatest();
+    if (!key) {
+      console.error('git-crypt: error: key file is empty');
+      return 1;
+    }
+
+    const spillThreshold = await getCleanSpillThreshold(cwd);
+
+    // Encrypt the file (header, HMAC-derived nonce, ciphertext) and write to stdout
+    try {
+      await createPipeline([
+        input,
+        createEncryptStream(key, { spillThreshold }),
+        forwardTo(output)
+      ]);
+    } catch (error) {
+      if (error instanceof GitCryptError) {
+        console.error(`git-crypt: error: ${error.message}`);
+        return 1;
+      }
+      throw error;
+    }
+
+    return 0;
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Writable that passes chunks on to output without ending it,
+ * waiting until each chunk has been flushed
+ */
+function forwardTo(output: Writable): Writable {
+  return new Writable({
+    write(chunk: Buffer, encoding, callback) {
+      writeBuffer(output, chunk).then(() => callback(), callback);
+    }
+  });
+}
+
+/**
+ * Decrypt an encrypted file whose header has already been read from input,
+ * writing the plaintext to output as it is decrypted
+ */
+async function decryptFileToStdout(keyFile: KeyFile, header: Buffer, input: Readable, output: Writable): Promise<number> {
+  if (keyFile.isEmpty()) {
+    console.error('git-crypt: error: key file is empty');
+    return 1;
+  }
+
+  const decryptStream = createDecryptStream(keyFile);
+  decryptStream.write(header);
+
+  try {
+    await createPipeline([input, decryptStream, forwardTo(output)]);
+  } catch (error) {
+    if (error instanceof GitCryptError) {
+      // Although we've already written the tampered file to stdout, exiting
+      // with a non-zero status will tell git the file has not been filtered,
+      // so git will not replace it.
+      console.error(`git-crypt: error: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  }
+
+  return 0;
+}
+
+/**
+ * Warn that a file being smudged is not encrypted
+ */
+function warnFileNotEncrypted(filename: string): void {
+  console.error(`git-crypt: Warning: ${filename} not encrypted`);
+  console.error('git-crypt: Run \'git-crypt status\' to make sure all files are properly encrypted.');
+  console.error('git-crypt: If \'git-crypt status\' reports no problems, then an older version of');
+  console.error('git-crypt: this file may be unencrypted in the repository\'s history.  If this');
+  console.error('git-crypt: file contains sensitive information, you can use \'git filter-branch\'');
+  console.error('git-crypt: to remove its old versions from the history.');
+}
+
+/**
+ * Decrypt contents of stdin and write to stdout
+ */
+export async function smudge(
+  args: string[],
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+  options: CommandOptions = {}
+): Promise<number> {
+  const { cwd } = options;
+  const { keyName, keyPath, argi } = parsePlumbingOptions(args);
+  let legacyKeyPath: string | undefined;
+
+  if (!keyName && !keyPath && args.length - argi === 1) {
+    // Deprecated - for compatibility with pre-0.4
+    legacyKeyPath = args[argi];
+  } else if (args.length - argi !== 0) {
+    console.error('Usage: git-crypt smudge [--key-name=NAME] [--key-file=PATH]');
+    return 2;
+  }
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, keyPath, legacyKeyPath, cwd);
+
+  try {
+    // Read the header to get the nonce and make sure it's actually encrypted
+    const header = await readStreamBytes(input, ENCRYPTED_HEADER_LEN);
+    if (!isEncryptedBlob(header)) {
+      // File not encrypted - just copy it out to stdout
+      warnFileNotEncrypted('file');
+      await writeBuffer(output, header); // include the bytes which we already read
+      await createPipeline([input, forwardTo(output)]);
+      return 0;
+    }
+
+    return await decryptFileToStdout(keyFile, header, input, output);
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Decrypt a file and write it to stdout, for use as git's diff textconv
+ */
+export async function diff(
+  args: string[],
+  output: Writable = process.stdout,
+  options: CommandOptions = {}
+): Promise<number> {
+  const { cwd } = options;
+  const { keyName, keyPath, argi } = parsePlumbingOptions(args);
+  let legacyKeyPath: string | undefined;
+  let filename: string;
+
+  if (args.length - argi === 1) {
+    filename = args[argi];
+  } else if (!keyName && !keyPath && args.length - argi === 2) {
+    // Deprecated - for compatibility with pre-0.4
+    legacyKeyPath = args[argi];
+    filename = args[argi + 1];
+  } else {
+    console.error('Usage: git-crypt diff [--key-name=NAME] [--key-file=PATH] FILENAME');
+    return 2;
+  }
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, keyPath, legacyKeyPath, cwd);
+
+  // Open the file
+  const input = fs.createReadStream(resolvePath(cwd, filename));
+
+  try {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        input.once('open', () => resolve());
+        input.once('error', reject);
+      });
+    } catch {
+      console.error(`git-crypt: ${filename}: unable to open for reading`);
+      return 1;
+    }
+
+    // Read the header to get the nonce and determine if it's actually encrypted
+    const header = await readStreamBytes(input, ENCRYPTED_HEADER_LEN);
+    if (!isEncryptedBlob(header)) {
+      // File not encrypted - just copy it out to stdout
+      await writeBuffer(output, header); // include the bytes which we already read
+      await createPipeline([input, forwardTo(output)]);
+      return 0;
+    }
+
+    // Go ahead and decrypt it
+    return await decryptFileToStdout(keyFile, header, input, output);
+  } finally {
+    input.destroy();
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Smudge one file held in memory, for a request the long-running filter process
+ * may delay (other files are filtered as they arrive, see sendFilteredContent()).
+ * Returns the filtered contents, or null if the file could not be filtered.
+ */
+function filterFileContents(command: string, pathname: string, keyFile: KeyFile, data: Buffer): Buffer | null {
+  if (command === 'smudge') {
+    if (!isEncryptedBlob(data)) {
+      warnFileNotEncrypted(pathname);
+      return data;
+    }
+
+    const { plaintext, verified } = tryDecryptBlob(keyFile, data);
+    if (!verified) {
+      console.error(`git-crypt: error: ${pathname}: encrypted file has been tampered with!`);
+      return null;
+    }
+    return plaintext;
+  }
+
+  console.error(`git-crypt: error: unsupported filter command '${command}'`);
+  return null;
+}
+
+/**
+ * Decrypts files in the background for delayed smudging
+ */
+interface BackgroundDecryptor {
+  /** Decrypt a file, which may be moved to another thread and left empty here */
+  decrypt(data: Buffer): Promise<SmudgeResult>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Create a decryptor backed by a pool of worker threads, one per CPU.
+ * Without the compiled worker script (e.g. when running from source) files are
+ * decrypted on the main thread instead, which keeps the protocol working.
+ */
+async function createBackgroundDecryptor(keyFile: KeyFile): Promise<BackgroundDecryptor> {
+  const workerScript = path.join(__dirname, 'smudgeWorker.js');
+  if (!await fileExists(workerScript)) {
+    return {
+      decrypt: data => new Promise((resolve, reject) => {
+        setImmediate(() => {
+          try {
+            resolve(tryDecryptBlob(keyFile, data));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      }),
+      destroy: async () => {}
+    };
+  }
+
+  const keyData = Buffer.from(await keyFile.storeToString(), 'binary');
+  const pool = new WorkerPool<SmudgeTask, SmudgeResult>(workerScript, os.cpus().length || 1, { keyData });
+  return {
+    decrypt: data => pool.run({ data }, transferList(data)),
+    destroy: async () => {
+      await pool.destroy();
+      keyData.fill(0);
+    }
+  };
+}
+
+/**
+ * Answer a clean or smudge request with the filtered contents, or an error if there are none
+ */
+async function writeFilterResponse(output: Writable, filtered: Buffer | null): Promise<void> {
+  if (filtered === null) {
+    await writePacketList(output, ['status=error']);
+    return;
+  }
+
+  await writePacketList(output, ['status=success']);
+  await writePacketContent(output, filtered);
+  // An empty list keeps the status sent before the content
+  await writePacketList(output, []);
+}
+
+/**
+ * Answer a filter request by passing its content packets through a filtering
+ * stream. Git only reads the response once it has sent the whole file, and
+ * the streams used here produce nothing until their input has ended, holding
+ * large files in a temporary file rather than in memory. Every content packet
+ * is read even if filtering fails, so that the conversation with git stays in step.
+ */
+async function sendFilteredContent(
+  packets: AsyncIterable<Buffer>,
+  filter: Duplex,
+  output: Writable,
+  pathname: string
+): Promise<void> {
+  // Failures are picked up from the writes and reads below
+  filter.on('error', () => {});
+  let failure: Error | null = null;
+
+  for await (const packet of packets) {
+    if (failure === null) {
+      try {
+        await writeBuffer(filter, packet);
+      } catch (error) {
+        failure = error as Error;
+      }
+    }
+  }
+
+  // Nothing is output until the whole file has been read, so the status
+  // can be sent along with the first piece of the filtered file
+  let started = false;
+  if (failure === null) {
+    filter.end();
+    try {
+      // Pieces are gathered into full packets, as the buffered filters send them
+      let pending = Buffer.alloc(0);
+      for await (const chunk of filter) {
+        if (!started) {
+          await writePacketList(output, ['status=success']);
+          started = true;
+        }
+        pending = Buffer.concat([pending, chunk]);
+        while (pending.length >= PKT_LINE_MAX_DATA_LEN) {
+          await writePacketData(output, pending.subarray(0, PKT_LINE_MAX_DATA_LEN));
+          pending = pending.subarray(PKT_LINE_MAX_DATA_LEN);
+        }
+      }
+      if (pending.length > 0) {
+        await writePacketData(output, pending);
+      }
+    } catch (error) {
+      failure = error as Error;
+    }
+  }
+  filter.destroy();
+
+  if (failure !== null) {
+    console.error(`git-crypt: error: ${pathname}: ${failure.message}`);
+    if (started) {
+      // End the content, then replace the status sent before it
+      await writePacketList(output, []);
+    }
+    await writePacketList(output, ['status=error']);
+    return;
+  }
+
+  if (!started) {
+    await writePacketList(output, ['status=success']);
+  }
+  // End the content; an empty list then keeps the status sent before it
+  await writePacketList(output, []);
+  await writePacketList(output, []);
+}
+
+/**
+ * Yield the packets already read, then those still to come
+ */
+async function* resumePackets(read: Buffer[], rest: AsyncIterable<Buffer>): AsyncGenerator<Buffer, void, undefined> {
+  yield* read;
+  yield* rest;
+}
+
+/**
+ * Smudge one file for the long-running filter process, given the content
+ * packets read so far and those still to come. Encrypted files are decrypted
+ * through a stream, which only outputs the plaintext once it has been verified.
+ */
+async function smudgeFilterContent(
+  read: Buffer[],
+  rest: AsyncIterable<Buffer>,
+  output: Writable,
+  pathname: string,
+  keyFile: KeyFile
+): Promise<void> {
+  const packets = resumePackets(read, rest);
+
+  // Read the header to get the nonce and make sure it's actually encrypted
+  const header: Buffer[] = [];
+  let headerLength = 0;
+  while (headerLength < ENCRYPTED_HEADER_LEN) {
+    const next = await packets.next();
+    if (next.done) {
+      break;
+    }
+    header.push(next.value);
+    headerLength += next.value.length;
+  }
+
+  if (!isEncryptedBlob(Buffer.concat(header))) {
+    // File not encrypted - just copy it out, including the bytes already read
+    warnFileNotEncrypted(pathname);
+    for await (const packet of packets) {
+      header.push(packet);
+    }
+    await writeFilterResponse(output, Buffer.concat(header));
+    return;
+  }
+
+  await sendFilteredContent(
+    resumePackets(header, packets),
+    createDecryptStream(keyFile, { verifyFirst: true }),
+    output,
+    pathname
+  );
+}
+
+/**
+ * Run as git's long-running filter process (filter.<driver>.process),
+ * cleaning and smudging every file over one connection.
+ * When git allows it, large files are decrypted in the background and
+ * handed back once git asks for them, so that they decrypt in parallel;
+ * once the delayed files reach DELAYED_SMUDGE_MAX_BYTES, the rest are
+ * smudged straight away.
+ */
+export async function filterProcess(
+  args: string[],
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+  options: CommandOptions = {}
+): Promise<number> {
+  const { cwd } = options;
+  const { keyName, keyPath, argi } = parsePlumbingOptions(args);
+
+  if (args.length - argi !== 0) {
+    console.error('Usage: git-crypt filter-process [--key-name=NAME] [--key-file=PATH]');
+    return 2;
+  }
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, keyPath, undefined, cwd);
+  const spillThreshold = await getCleanSpillThreshold(cwd);
+
+  // Delayed files by pathname: still decrypting, finished, and announced to git
+  const decrypting = new Map<string, Promise<void>>();
+  const finished = new Map<string, Buffer | null>();
+  const announced = new Map<string, Buffer | null>();
+  // Size of each delayed file until it is handed back, and their total
+  const delayedLengths = new Map<string, number>();
+  let delayedBytes = 0;
+  let decryptor: BackgroundDecryptor | null = null;
+
+  try {
+    if (keyFile.isEmpty()) {
+      console.error('git-crypt: error: key file is empty');
+      return 1;
+    }
+
+    // Handshake: git-filter-client with its versions, answered by git-filter-server
+    const welcome = await readPacketList(input);
+    if (welcome[0] !== 'git-filter-client' || !welcome.includes('version=2')) {
+      console.error('git-crypt: error: unsupported filter protocol');
+      return 1;
+    }
+    await writePacketList(output, ['git-filter-server', 'version=2']);
+
+    // Capabilities: announce the ones git offered that we support
+    const offered = await readPacketList(input);
+    await writePacketList(
+      output,
+      ['capability=clean', 'capability=smudge', 'capability=delay'].filter(line => offered.includes(line))
+    );
+
+    // Git closes the pipe once it has no more files to filter
+    while (!await isStreamEnded(input)) {
+      const headers = new Map<string, string>();
+      for (const line of await readPacketList(input)) {
+        const eq = line.indexOf('=');
+        if (eq !== -1) {
+          headers.set(line.slice(0, eq), line.slice(eq + 1));
+        }
+      }
+      const command = headers.get('command') ?? '';
+      const pathname = headers.get('pathname') ?? 'file';
+
+      if (command === 'list_available_blobs') {
+        // Block until at least one delayed file is ready, unless there are none left
+        if (finished.size === 0 && decrypting.size > 0) {
+          await Promise.race(decrypting.values());
+        }
+        for (const [name, filtered] of finished) {
+          announced.set(name, filtered);
+        }
+        await writePacketList(output, [...finished.keys()].map(name => `pathname=${name}`));
+        await writePacketList(output, ['status=success']);
+        finished.clear();
+        continue;
+      }
+
+      if (command === 'clean') {
+        const encryptStream = createEncryptStream(keyFile.getLatest()!, { spillThreshold });
+        await sendFilteredContent(readPacketChunks(input), encryptStream, output, pathname);
+        continue;
+      }
+
+      // Git asks again, without contents, for a delayed file once it has been announced
+      if (command === 'smudge' && announced.has(pathname)) {
+        await readPacketContent(input);
+        const filtered = announced.get(pathname)!;
+        announced.delete(pathname);
+        delayedBytes -= delayedLengths.get(pathname)!;
+        delayedLengths.delete(pathname);
+        await writeFilterResponse(output, filtered);
+        continue;
+      }
+
+      if (command === 'smudge' && headers.get('can-delay') !== '1') {
+        await smudgeFilterContent([], readPacketChunks(input), output, pathname, keyFile);
+        continue;
+      }
+
+      if (command === 'smudge') {
+        // Only read the file into memory while it fits alongside the files already delayed
+        const packets = readPacketChunks(input);
+        const read: Buffer[] = [];
+        let length = 0;
+        let next = await packets.next();
+        while (!next.done && delayedBytes + length + next.value.length <= DELAYED_SMUDGE_MAX_BYTES) {
+          read.push(next.value);
+          length += next.value.length;
+          next = await packets.next();
+        }
+
+        if (!next.done) {
+          read.push(next.value);
+          await smudgeFilterContent(read, packets, output, pathname, keyFile);
+          continue;
+        }
+
+        const data = Buffer.concat(read, length);
+        if (data.length < DELAYED_SMUDGE_MIN_BYTES || !isEncryptedBlob(data)) {
+          await writeFilterResponse(output, filterFileContents(command, pathname, keyFile, data));
+          continue;
+        }
+
+        decryptor ??= await createBackgroundDecryptor(keyFile);
+        delayedLengths.set(pathname, data.length);
+        delayedBytes += data.length;
+        decrypting.set(pathname, decryptor.decrypt(data).then(
+          ({ plaintext, verified }) => {
+            if (!verified) {
+              console.error(`git-crypt: error: ${pathname}: encrypted file has been tampered with!`);
+              return null;
+            }
+            return Buffer.from(plaintext.buffer, plaintext.byteOffset, plaintext.byteLength);
+          },
+          (error: Error) => {
+            console.error(`git-crypt: error: ${pathname}: ${error.message}`);
+            return null;
+          }
+        ).then(filtered => {
+          decrypting.delete(pathname);
+          finished.set(pathname, filtered);
+        }));
+        await writePacketList(output, ['status=delayed']);
+        continue;
+      }
+
+      const data = await readPacketContent(input);
+      await writeFilterResponse(output, filterFileContents(command, pathname, keyFile, data));
+    }
+
+    return 0;
+  } finally {
+    await decryptor?.destroy();
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Initialize repository with git-crypt
+ */
+export async function init(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  let keyName: string | undefined;
+  
+  // Simple argument parsing
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-k' || args[i] === '--key-name') {
+      keyName = args[i + 1];
+      i++; // skip next argument
+    } else {
+      throw new CommandError('Error: git-crypt init takes no arguments');
+    }
+  }
+
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  const internalKeyPath = await getInternalKeyPath(keyName, cwd);
+  
+  if (await fileExists(internalKeyPath)) {
+    throw new CommandError('Error: this repository has already been initialized with git-crypt.');
+  }
+
+  // Generate a key and install it
+  console.log('Generating key...');
+  const keyFile = new KeyFile();
+  keyFile.setKeyName(keyName || null);
+  keyFile.generate();
+
+  await mkdirParent(internalKeyPath);
+  const success = await keyFile.storeToFile(internalKeyPath);
+  if (!success) {
+    throw new CommandError(`Error: ${internalKeyPath}: unable to write key file`);
+  }
+
+  // Configure git
+  await configureGitFilters(keyName, cwd);
+
+  console.log('git-crypt is now configured to use your key.');
+  console.log('');
+  console.log('You can now edit your .gitattributes file to specify which files should');
+  console.log('be encrypted. See `git-crypt help` for more information.');
+
+  return 0;
+}
+
+/**
+ * Unlock repository with key file(s)
+ */
+export async function unlock(
+  args: string[],
+  input: Readable = process.stdin,
+  options: CommandOptions = {}
+): Promise<number> {
+  const { cwd } = options;
+
+  // Check if working directory is clean
+  if (!await isWorkingDirectoryClean(cwd)) {
+    throw new CommandError(
+      'Error: Working directory not clean.\n' +
+      'Please commit your changes or \'git stash\' them before running \'git-crypt unlock\'.'
+    );
+  }
+
+  // Load key files
+  const keyFiles: KeyFile[] = [];
+  
+  if (args.length > 0) {
+    // Read from symmetric key file(s)
+    for (const keyFilePath of args) {
+      const keyFile = new KeyFile();
+      
+      try {
+        let success = true;
+        if (keyFilePath === '-') {
+          // Read from stdin so the key never has to be written to disk
+          await loadKeyFromStream(keyFile, input);
+        } else {
+          success = await keyFile.loadFromFile(resolvePath(cwd, keyFilePath));
+        }
+        
         if (!success) {
           throw new CommandError(`Error: ${keyFilePath}: unable to read key file`);
         }
@@ -646,18 +1859,23 @@ export async function unlock(args: string[]): Promise<number> {
       }
     }
   } else {
-    // GPG decryption not implemented in this simplified version
-    throw new CommandError(
-      'Error: GPG key decryption not supported in this implementation.\n' +
-      'Please specify the path to a symmetric key file.'
-    );
+    // Decrypt GPG key from root of repo
+    const gpgSecretKeys = await gpgListSecretKeys(cwd);
+    keyFiles.push(...await decryptRepoKeys(gpgSecretKeys, await getRepoKeysPath(cwd), cwd));
+
+    if (keyFiles.length === 0) {
+      throw new CommandError(
+        'Error: no GPG secret key available to unlock this repository.\n' +
+        'To unlock with a shared symmetric key instead, specify the path to the symmetric key as an argument to \'git-crypt unlock\'.'
+      );
+    }
   }
 
   // Install the key(s) and configure git filters
   const allEncryptedFiles: string[] = [];
   
   for (const keyFile of keyFiles) {
-    const internalKeyPath = getInternalKeyPath(keyFile.getKeyName() || undefined);
+    const internalKeyPath = await getInternalKeyPath(keyFile.getKeyName() || undefined, cwd);
     
     await mkdirParent(internalKeyPath);
     const success = await keyFile.storeToFile(internalKeyPath);
@@ -665,180 +1883,1014 @@ export async function unlock(args: string[]): Promise<number> {
       throw new CommandError(`Error: ${internalKeyPath}: unable to write key file`);
     }
 
-    await configureGitFilters(keyFile.getKeyName() || undefined);
-    const encryptedFiles = await getEncryptedFiles(keyFile.getKeyName() || undefined);
-    allEncryptedFiles.push(...encryptedFiles);
+    await configureGitFilters(keyFile.getKeyName() || undefined, cwd);
+    const encryptedFiles = await getEncryptedFiles(keyFile.getKeyName() || undefined, cwd);
+    allEncryptedFiles.push(...encryptedFiles);
+  }
+
+  // Touch and checkout encrypted files
+  for (const file of allEncryptedFiles) {
+    await touchFile(repoPath(cwd, file));
+  }
+  
+  if (!await gitCheckout(allEncryptedFiles, cwd)) {
+    throw new CommandError("Error: 'git checkout' failed");
+  }
+
+  console.log('git-crypt has been unlocked');
+  
+  // Clean up sensitive data
+  keyFiles.forEach(keyFile => keyFile.destroy());
+  
+  return 0;
+}
+
+/**
+ * Lock repository (re-encrypt files)
+ */
+export async function lock(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  let keyName: string | undefined;
+  
+  // Simple argument parsing
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-k' || args[i] === '--key-name') {
+      keyName = args[i + 1];
+      i++; // skip next argument
+    } else {
+      throw new CommandError('Error: unexpected argument to git-crypt lock');
+    }
+  }
+
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  // Check if working directory is clean
+  if (!await isWorkingDirectoryClean(cwd)) {
+    throw new CommandError(
+      'Error: Working directory not clean.\n' +
+      'Please commit your changes or \'git stash\' them before running \'git-crypt lock\'.'
+    );
+  }
+
+  const internalKeyPath = await getInternalKeyPath(keyName, cwd);
+  
+  if (!await fileExists(internalKeyPath)) {
+    throw new CommandError('Error: this repository is not configured with git-crypt');
+  }
+
+  // Get list of encrypted files
+  const encryptedFiles = await getEncryptedFiles(keyName, cwd);
+
+  // Remove the key from .git
+  await removeFile(internalKeyPath);
+
+  // Deconfigure git filters
+  await deconfigureGitFilters(keyName, cwd);
+
+  // Touch and checkout files to re-encrypt them
+  for (const file of encryptedFiles) {
+    await touchFile(repoPath(cwd, file));
+  }
+  
+  if (!await gitCheckout(encryptedFiles, cwd)) {
+    throw new CommandError("Error: 'git checkout' failed");
+  }
+
+  console.log('git-crypt has been locked');
+  
+  return 0;
+}
+
+/**
+ * Add GPG user(s) as collaborators by encrypting the key for them
+ */
+export async function addGpgUser(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true },
+    { name: '-n', key: 'noCommit' },
+    { name: '--no-commit', key: 'noCommit' },
+    { name: '--trusted', key: 'trusted' }
+  ], args);
+  const keyName = parsed.values.keyName;
+  const noCommit = parsed.flags.noCommit === true;
+  const trusted = parsed.flags.trusted === true;
+
+  if (args.length - parsed.argi === 0) {
+    console.error('Error: no GPG user ID specified');
+    helpAddGpgUser();
+    return 2;
+  }
+
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  // Build a list of key fingerprints, and whether the key is trusted, for every collaborator specified on the command line
+  const collabKeys: Array<{ fingerprint: string; trusted: boolean }> = [];
+
+  for (const userId of args.slice(parsed.argi)) {
+    const keys = await gpgLookupKey(userId, cwd);
+    if (keys.length === 0) {
+      throw new CommandError(`Error: public key for '${userId}' not found in your GPG keyring`);
+    }
+    if (keys.length > 1) {
+      throw new CommandError(`Error: more than one public key matches '${userId}' - please be more specific`);
+    }
+
+    const isFullFingerprint = userId.startsWith('0x') && userId.length === 42;
+    collabKeys.push({ fingerprint: keys[0], trusted: trusted || isFullFingerprint });
+  }
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, undefined, undefined, cwd);
+
+  try {
+    const key = keyFile.getLatest();
+    if (!key) {
+      throw new CommandError('Error: key file is empty');
+    }
+
+    const statePath = await getRepoStatePath(cwd);
+    const newFiles = await encryptRepoKey(keyName, key, collabKeys, await getRepoKeysPath(cwd), cwd);
+
+    // Add a .gitattributes file to the repo state directory to prevent files in it from being encrypted
+    if (await writeStateGitattributes(statePath)) {
+      newFiles.push(path.join(statePath, '.gitattributes'));
+    }
+
+    if (newFiles.length === 0) {
+      return 0;
+    }
+
+    // git add NEW_FILE ...
+    if (await execCommand(['git', 'add', '--', ...newFiles], { cwd }) !== 0) {
+      throw new CommandError("Error: 'git add' failed");
+    }
+
+    if (!noCommit) {
+      let commitMessage = `Add ${collabKeys.length} git-crypt collaborator${collabKeys.length !== 1 ? 's' : ''}\n\nNew collaborators:\n\n`;
+      for (const { fingerprint } of collabKeys) {
+        commitMessage += `    ${fingerprint}\n`;
+        commitMessage += `        ${await gpgGetUid(fingerprint, cwd)}\n`;
+      }
+
+      // git commit -m MESSAGE NEW_FILE ...
+      if (await execCommand(['git', 'commit', '-m', commitMessage, '--', ...newFiles], { cwd }) !== 0) {
+        throw new CommandError("Error: 'git commit' failed");
+      }
+    }
+
+    return 0;
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Remove GPG user(s) as collaborators, optionally rotating the key so they
+ * cannot decrypt anything committed afterwards
+ */
+export async function rmGpgUser(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true },
+    { name: '-n', key: 'noCommit' },
+    { name: '--no-commit', key: 'noCommit' },
+    { name: '--rotate', key: 'rotate' }
+  ], args);
+  const keyName = parsed.values.keyName;
+  const noCommit = parsed.flags.noCommit === true;
+  const rotate = parsed.flags.rotate === true;
+
+  if (args.length - parsed.argi === 0) {
+    console.error('Error: no GPG user ID specified');
+    helpRmGpgUser();
+    return 2;
+  }
+
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  const keysPath = await getRepoKeysPath(cwd);
+  const versions = await getRepoKeyVersions(keyName, keysPath);
+  const collaborators = new Set<string>();
+  for (const version of versions) {
+    for (const fingerprint of await getRepoKeyCollaborators(keyName, version, keysPath)) {
+      collaborators.add(fingerprint);
+    }
+  }
+
+  // Build a list of key fingerprints for every collaborator specified on the command line.
+  // A full fingerprint is accepted even if the key is no longer in the local keyring.
+  const removedKeys: string[] = [];
+
+  for (const userId of args.slice(parsed.argi)) {
+    let keys = await gpgLookupKey(userId, cwd);
+    if (keys.length === 0 && /^0x[0-9A-Fa-f]{40}$/.test(userId)) {
+      keys = [userId.slice(2).toUpperCase()];
+    }
+    if (keys.length === 0) {
+      throw new CommandError(`Error: public key for '${userId}' not found in your GPG keyring`);
+    }
+    if (keys.length > 1) {
+      throw new CommandError(`Error: more than one public key matches '${userId}' - please be more specific`);
+    }
+    if (!collaborators.has(keys[0])) {
+      throw new CommandError(`Error: '${userId}' is not a collaborator on this key`);
+    }
+    if (!removedKeys.includes(keys[0])) {
+      removedKeys.push(keys[0]);
+    }
+  }
+
+  // Re-cleaning files below would also stage any uncommitted changes to them
+  if (rotate && !await isWorkingDirectoryClean(cwd)) {
+    console.error('Error: Working directory not clean.');
+    console.error('Please commit your changes or \'git stash\' them before rotating the key.');
+    return 1;
+  }
+
+  const keyFile = new KeyFile();
+  if (rotate) {
+    await loadKey(keyFile, keyName, undefined, undefined, cwd);
+  }
+
+  try {
+    const removedFiles: string[] = [];
+    for (const version of versions) {
+      for (const fingerprint of removedKeys) {
+        const encryptedKeyPath = path.join(keysPath, keyName || 'default', String(version), `${fingerprint}.gpg`);
+        if (await fileExists(encryptedKeyPath)) {
+          removedFiles.push(encryptedKeyPath);
+        }
+      }
+    }
+
+    // git rm -q -- OLD_FILE ...
+    if (await execCommand(['git', 'rm', '-q', '--', ...removedFiles], { cwd }) !== 0) {
+      throw new CommandError("Error: 'git rm' failed");
+    }
+
+    const changedFiles = [...removedFiles];
+
+    if (rotate) {
+      const remainingKeys = (await getRepoKeyCollaborators(keyName, keyFile.getLatestVersion(), keysPath))
+        .filter(fingerprint => !removedKeys.includes(fingerprint));
+      changedFiles.push(...await rotateKeyVersion(keyName, keyFile, remainingKeys, keysPath, cwd));
+    }
+
+    if (!noCommit) {
+      let commitMessage = `Remove ${removedKeys.length} git-crypt collaborator${removedKeys.length !== 1 ? 's' : ''}\n\nRemoved collaborators:\n\n`;
+      for (const fingerprint of removedKeys) {
+        commitMessage += `    ${fingerprint}\n`;
+        commitMessage += `        ${await gpgGetUid(fingerprint, cwd)}\n`;
+      }
+      if (rotate) {
+        commitMessage += `\nRotated to key version ${keyFile.getLatestVersion()}\n`;
+      }
+
+      // git commit -m MESSAGE CHANGED_FILE ...
+      if (await execCommand(['git', 'commit', '-m', commitMessage, '--', ...changedFiles], { cwd }) !== 0) {
+        throw new CommandError("Error: 'git commit' failed");
+      }
+    }
+
+    return 0;
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Add a new version to a key and re-encrypt every file with it. Older versions are
+ * kept, in the internal key file and for GPG collaborators, so history still decrypts.
+ */
+export async function rotateKey(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true },
+    { name: '-n', key: 'noCommit' },
+    { name: '--no-commit', key: 'noCommit' }
+  ], args);
+  const keyName = parsed.values.keyName;
+  const noCommit = parsed.flags.noCommit === true;
+
+  if (args.length - parsed.argi !== 0) {
+    console.error('Error: git-crypt rotate-key takes no arguments');
+    helpRotateKey();
+    return 2;
+  }
+
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  // Re-cleaning files below would also stage any uncommitted changes to them
+  if (!await isWorkingDirectoryClean(cwd)) {
+    console.error('Error: Working directory not clean.');
+    console.error('Please commit your changes or \'git stash\' them before rotating the key.');
+    return 1;
+  }
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, undefined, undefined, cwd);
+
+  try {
+    if (keyFile.isEmpty()) {
+      throw new CommandError('Error: key file is empty');
+    }
+
+    // Collaborators who could decrypt the latest version get the new one too
+    const keysPath = await getRepoKeysPath(cwd);
+    const collaborators = await getRepoKeyCollaborators(keyName, keyFile.getLatestVersion(), keysPath);
+    const changedFiles = await rotateKeyVersion(keyName, keyFile, collaborators, keysPath, cwd);
+    const newVersion = keyFile.getLatestVersion();
+
+    console.log(`Rotated ${keyName ? `key '${keyName}'` : 'the default key'} to version ${newVersion}.`);
+    console.log('Anyone who unlocks with an exported key file needs the new version - run \'git-crypt export-key\' again.');
+
+    if (!noCommit && changedFiles.length > 0) {
+      const commitMessage = `Rotate ${keyName ? `git-crypt key '${keyName}'` : 'git-crypt key'} to version ${newVersion}`;
+
+      // git commit -m MESSAGE CHANGED_FILE ...
+      if (await execCommand(['git', 'commit', '-m', commitMessage, '--', ...changedFiles], { cwd }) !== 0) {
+        throw new CommandError("Error: 'git commit' failed");
+      }
+    }
+
+    return 0;
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * A collaborator who has a GPG-encrypted copy of a key version
+ */
+interface GpgUserListing {
+  fingerprint: string;
+  /** User ID from the local keyring, or null if the keyring does not know the key */
+  uid: string | null;
+}
+
+/**
+ * The collaborators for each version of a key
+ */
+interface GpgKeyListing {
+  keyName: string;
+  versions: Array<{ version: number; users: GpgUserListing[] }>;
+}
+
+/**
+ * List the GPG users who can decrypt each version of each key in the repo
+ */
+export async function lsGpgUsers(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '--json', key: 'json' }
+  ], args);
+  const json = parsed.flags.json === true;
+
+  if (args.length - parsed.argi !== 0) {
+    console.error('Error: git-crypt ls-gpg-users takes no arguments');
+    helpLsGpgUsers();
+    return 2;
+  }
+
+  const keysPath = await getRepoKeysPath(cwd);
+  const listing: GpgKeyListing[] = [];
+
+  for (const keyName of await getRepoKeyNames(keysPath)) {
+    const versions: GpgKeyListing['versions'] = [];
+    for (const version of await getRepoKeyVersions(keyName, keysPath)) {
+      const users: GpgUserListing[] = [];
+      for (const fingerprint of await getRepoKeyCollaborators(keyName, version, keysPath)) {
+        users.push({ fingerprint, uid: await gpgGetUid(fingerprint, cwd) || null });
+      }
+      versions.push({ version, users });
+    }
+    listing.push({ keyName: keyName || 'default', versions });
+  }
+
+  if (json) {
+    console.log(JSON.stringify(listing, null, 2));
+    return 0;
+  }
+
+  if (listing.length === 0) {
+    console.log('No GPG users found.');
+    return 0;
+  }
+
+  for (const { keyName, versions } of listing) {
+    console.log(`Key '${keyName}':`);
+    for (const { version, users } of versions) {
+      console.log(`  Version ${version}:`);
+      for (const { fingerprint, uid } of users) {
+        console.log(uid ? `    0x${fingerprint}  ${uid}` : `    0x${fingerprint}`);
+      }
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Export symmetric key to file
+ */
+export async function exportKey(
+  args: string[],
+  output: Writable = process.stdout,
+  options: CommandOptions = {}
+): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true },
+    { name: '-f', key: 'force' },
+    { name: '--force', key: 'force' }
+  ], args);
+  const keyName = parsed.values.keyName;
+  const force = parsed.flags.force === true;
+
+  if (args.length - parsed.argi !== 1) {
+    console.error('Error: no filename specified');
+    helpExportKey();
+    return 2;
+  }
+
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  const outFileName = args[parsed.argi];
+
+  const keyFile = new KeyFile();
+  await loadKey(keyFile, keyName, undefined, undefined, cwd);
+
+  try {
+    if (outFileName === '-') {
+      await keyFile.store(output);
+    } else {
+      await storeExportedKey(keyFile, resolvePath(cwd, outFileName), outFileName, force);
+    }
+
+    return 0;
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Write an exported key file. A clobbered key file cannot be recovered, so
+ * unless forced the file is created exclusively: checking for it and creating
+ * it are one step, and a file or symlink put there meanwhile is never followed.
+ */
+async function storeExportedKey(keyFile: KeyFile, filePath: string, displayName: string, force: boolean): Promise<void> {
+  const stream = fs.createWriteStream(filePath, { flags: force ? 'w' : 'wx', mode: 0o600 });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      stream.once('open', () => resolve());
+      stream.once('error', reject);
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new CommandError(`Error: ${displayName} already exists - use --force to overwrite it`);
+    }
+    throw new CommandError(`Error: ${displayName}: unable to write key file`);
+  }
+
+  try {
+    await keyFile.store(stream);
+    await new Promise<void>((resolve, reject) => {
+      stream.end((error?: Error | null) => error ? reject(error) : resolve());
+    });
+  } catch (error) {
+    stream.destroy();
+    throw new CommandError(`Error: ${displayName}: unable to write key file`);
   }
+}
 
-  // Touch and checkout encrypted files
-  for (const file of allEncryptedFiles) {
-    await touchFile(file);
+/**
+ * Generate a new key file
+ */
+export async function keygen(args: string[]): Promise<number> {
+  if (args.length !== 1) {
+    throw new CommandError('Error: git-crypt keygen takes exactly one argument (the key file)');
   }
-  
-  if (!await gitCheckout(allEncryptedFiles)) {
-    throw new CommandError("Error: 'git checkout' failed");
+
+  const keyFilePath = args[0];
+
+  // Generate new key
+  const keyFile = new KeyFile();
+  keyFile.generate();
+
+  // Save to file
+  const success = await keyFile.storeToFile(keyFilePath);
+  if (!success) {
+    throw new CommandError(`Error: unable to write key to ${keyFilePath}`);
   }
 
-  console.log('git-crypt has been unlocked');
+  console.log(`Key generated and saved to ${keyFilePath}`);
   
   // Clean up sensitive data
-  keyFiles.forEach(keyFile => keyFile.destroy());
+  keyFile.destroy();
   
   return 0;
 }
 
 /**
- * Lock repository (re-encrypt files)
+ * Convert a legacy (pre-0.4) key file to the current format
  */
-export async function lock(args: string[]): Promise<number> {
-  let keyName: string | undefined;
-  
-  // Simple argument parsing
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '-k' || args[i] === '--key-name') {
-      keyName = args[i + 1];
-      i++; // skip next argument
-    } else {
-      throw new CommandError('Error: unexpected argument to git-crypt lock');
+export async function migrateKey(
+  args: string[],
+  input: Readable = process.stdin,
+  output: Writable = process.stdout
+): Promise<number> {
+  const parsed = parseOptions([
+    { name: '-i', key: 'inPlace' },
+    { name: '--in-place', key: 'inPlace' }
+  ], args);
+  const inPlace = parsed.flags.inPlace === true;
+  const paths = args.slice(parsed.argi);
+
+  if (paths.length !== (inPlace ? 1 : 2)) {
+    console.error(inPlace
+      ? 'Error: git-crypt migrate-key --in-place takes exactly one argument'
+      : 'Error: git-crypt migrate-key takes exactly two arguments');
+    helpMigrateKey();
+    return 2;
+  }
+
+  const keyFilePath = paths[0];
+  const newKeyFilePath = inPlace ? keyFilePath : paths[1];
+
+  if (inPlace && keyFilePath === '-') {
+    console.error('Error: standard input cannot be migrated in place');
+    helpMigrateKey();
+    return 2;
+  }
+
+  const keyFile = new KeyFile();
+  try {
+    const data = keyFilePath === '-'
+      ? await collectStream(input)
+      : await readKeyFileData(keyFilePath, `Error: ${keyFilePath}: unable to open for reading`);
+
+    try {
+      await keyFile.loadLegacyFromBuffer(data);
+    } catch (error) {
+      if (error instanceof MalformedKeyFileError) {
+        throw new CommandError(`Error: ${keyFilePath}: not a valid legacy git-crypt key file`);
+      }
+      throw error;
+    } finally {
+      data.fill(0);
+    }
+
+    if (newKeyFilePath === '-') {
+      await keyFile.store(output);
+    } else if (inPlace) {
+      // Write alongside and rename, so the old key survives a failed write
+      const tempPath = `${keyFilePath}.migrate-tmp`;
+      if (!await keyFile.storeToFile(tempPath)) {
+        await removeFile(tempPath);
+        throw new CommandError(`Error: ${tempPath}: unable to write key file`);
+      }
+      await fs.promises.rename(tempPath, keyFilePath);
+    } else if (!await keyFile.storeToFile(newKeyFilePath)) {
+      throw new CommandError(`Error: ${newKeyFilePath}: unable to write key file`);
     }
+
+    return 0;
+  } finally {
+    keyFile.destroy();
+  }
+}
+
+/**
+ * Show which files are encrypted, and optionally fix files that were committed unencrypted
+ */
+export async function status(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '-e', key: 'encryptedOnly' },
+    { name: '-u', key: 'unencryptedOnly' },
+    { name: '-f', key: 'fix' },
+    { name: '--fix', key: 'fix' }
+  ], args);
+  const showEncryptedOnly = parsed.flags.encryptedOnly === true;
+  const showUnencryptedOnly = parsed.flags.unencryptedOnly === true;
+  const fixProblems = parsed.flags.fix === true;
+
+  if (showEncryptedOnly && showUnencryptedOnly) {
+    console.error('Error: -e and -u options are mutually exclusive');
+    return 2;
   }
 
-  if (keyName) {
-    validateKeyNameOrThrow(keyName);
+  if (fixProblems && (showEncryptedOnly || showUnencryptedOnly)) {
+    console.error('Error: -e and -u options cannot be used with -f');
+    return 2;
   }
 
-  // Check if working directory is clean
-  if (!await isWorkingDirectoryClean()) {
-    throw new CommandError(
-      'Error: Working directory not clean.\n' +
-      'Please commit your changes or \'git stash\' them before running \'git-crypt lock\'.'
-    );
+  // git ls-files -cotsz --exclude-standard ...
+  const command = ['git', 'ls-files', '-cotsz', '--exclude-standard', '--'];
+  if (args.length - parsed.argi === 0) {
+    const pathToTop = await getPathToTop(cwd);
+    if (pathToTop) {
+      command.push(pathToTop);
+    }
+  } else {
+    command.push(...args.slice(parsed.argi));
   }
 
-  const internalKeyPath = getInternalKeyPath(keyName);
-  
-  if (!await fileExists(internalKeyPath)) {
-    throw new CommandError('Error: this repository is not configured with git-crypt');
+  const lsFiles = await execCommandWithBufferOutput(command, undefined, cwd);
+  if (lsFiles.exitCode !== 0) {
+    throw new CommandError("'git ls-files' failed - is this a Git repository?");
   }
 
-  // Get list of encrypted files
-  const encryptedFiles = await getEncryptedFiles(keyName);
+  // Output looks like (w/o newlines):
+  // ? .gitignore\0
+  // H 100644 06ec22e5ed0de9280731ef000a10f9c3fbc26338 0     afile\0
+  const files: Array<{ filename: string; objectId: string }> = [];
+  for (const record of lsFiles.output.toString('utf8').split('\0')) {
+    if (record.startsWith('? ')) {
+      files.push({ filename: record.slice(2), objectId: '' });
+    } else if (record.length > 0) {
+      const [entry] = parseLsFilesOutput(Buffer.from(record.slice(record.indexOf(' ') + 1), 'utf8'));
+      if (entry && isGitFileMode(entry.mode)) {
+        files.push({ filename: entry.filename, objectId: entry.objectId });
+      }
+    }
+  }
 
-  // Remove the key from .git
-  await removeFile(internalKeyPath);
+  const attributes = await getFileAttributes(files.map(file => file.filename), cwd);
+  let attributeErrors = false;
+  let unencryptedBlobErrors = false;
+  const fixedFiles: string[] = [];
+  let fixErrors = 0;
 
-  // Deconfigure git filters
-  await deconfigureGitFilters(keyName);
+  const blobReader = new BlobHeaderReader(cwd);
+  try {
+    for (const { filename, objectId } of files) {
+      const fileAttrs = attributes.get(filename)!;
+
+      if (fileAttrs.filter === 'git-crypt' || fileAttrs.filter.startsWith('git-crypt-')) {
+        // File is encrypted
+        const blobIsUnencrypted = objectId !== '' && !await blobReader.isEncrypted(objectId);
+
+        if (fixProblems && blobIsUnencrypted) {
+          if (!await fileExists(repoPath(cwd, filename))) {
+            console.error(`Error: ${filename}: cannot stage encrypted version because not present in working tree - please 'git rm' or 'git checkout' it`);
+            ++fixErrors;
+          } else {
+            await touchFile(repoPath(cwd, filename));
+            if (await execCommand(['git', 'add', '--', filename], { cwd }) !== 0) {
+              throw new CommandError("Error: 'git add' failed");
+            }
+            if (await checkIfFileIsEncrypted(filename, blobReader, cwd)) {
+              console.log(`${filename}: staged encrypted version`);
+              fixedFiles.push(filename);
+            } else {
+              console.error(`Error: ${filename}: still unencrypted even after staging`);
+              ++fixErrors;
+            }
+          }
+        } else if (!fixProblems && !showUnencryptedOnly) {
+          let line = `    encrypted: ${filename}`;
+          if (fileAttrs.diff !== fileAttrs.filter) {
+            // but diff filter is not properly set
+            line += ` *** WARNING: diff=${fileAttrs.filter} attribute not set ***`;
+            attributeErrors = true;
+          }
+          if (blobIsUnencrypted) {
+            // File not actually encrypted
+            line += ' *** WARNING: staged/committed version is NOT ENCRYPTED! ***';
+            unencryptedBlobErrors = true;
+          }
+          console.log(line);
+        }
+      } else if (!fixProblems && !showEncryptedOnly) {
+        // File not encrypted
+        console.log(`not encrypted: ${filename}`);
+      }
+    }
+  } finally {
+    await blobReader.close();
+  }
 
-  // Touch and checkout files to re-encrypt them
-  for (const file of encryptedFiles) {
-    await touchFile(file);
+  let exitStatus = 0;
+
+  if (attributeErrors) {
+    console.log('');
+    console.log('Warning: one or more files has a git-crypt filter attribute but not a');
+    console.log('corresponding git-crypt diff attribute.  For proper \'git diff\' operation');
+    console.log('you should fix the .gitattributes file to specify the correct diff attribute.');
+    console.log('Consult the git-crypt documentation for help.');
+    exitStatus = 1;
   }
-  
-  if (!await gitCheckout(encryptedFiles)) {
-    throw new CommandError("Error: 'git checkout' failed");
+  if (unencryptedBlobErrors) {
+    console.log('');
+    console.log('Warning: one or more files is marked for encryption via .gitattributes but');
+    console.log('was staged and/or committed before the .gitattributes file was in effect.');
+    console.log('Run \'git-crypt status\' with the \'-f\' option to stage an encrypted version.');
+    exitStatus = 1;
   }
+  if (fixedFiles.length > 0) {
+    console.log(`Staged ${fixedFiles.length} encrypted file${fixedFiles.length !== 1 ? 's' : ''}.`);
+
+    // git commit -m MESSAGE FIXED_FILE ...
+    const commitMessage = `Encrypt ${fixedFiles.length} file${fixedFiles.length !== 1 ? 's' : ''} that should have been encrypted\n\n` +
+      fixedFiles.map(filename => `    ${filename}\n`).join('');
+    if (await execCommand(['git', 'commit', '-m', commitMessage, '--', ...fixedFiles], { cwd }) !== 0) {
+      throw new CommandError("Error: 'git commit' failed");
+    }
 
-  console.log('git-crypt has been locked');
-  
-  return 0;
+    console.log('Warning: if these files were previously committed, unencrypted versions still exist in the repository\'s history.');
+  }
+  if (fixErrors > 0) {
+    console.log(`Unable to stage ${fixErrors} file${fixErrors !== 1 ? 's' : ''}.`);
+    exitStatus = 1;
+  }
+
+  return exitStatus;
 }
 
 /**
- * Export symmetric key to file
+ * Check the whole history for files that should have been encrypted but were committed
+ * without the git-crypt header, e.g. before .gitattributes was set up
  */
-export async function exportKey(args: string[]): Promise<number> {
-  if (args.length !== 1) {
-    throw new CommandError('Error: git-crypt export-key takes exactly one argument (the key file)');
-  }
+export async function audit(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
 
-  const keyFilePath = args[0];
-  let keyName: string | undefined;
+  if (args.length !== 0) {
+    console.error('Error: git-crypt audit takes no arguments');
+    helpAudit();
+    return 2;
+  }
 
-  // For now, assume default key. In full implementation, would parse --key-name option
-  const internalKeyPath = getInternalKeyPath(keyName);
-  
-  if (!await fileExists(internalKeyPath)) {
-    throw new CommandError('Error: this repository is not configured with git-crypt');
+  // Parents come before their children, so each leak is seen first at the commit that introduced it
+  // git rev-list --all --topo-order --reverse
+  const revList = await execCommandWithBufferOutput(['git', 'rev-list', '--all', '--topo-order', '--reverse'], undefined, cwd);
+  if (revList.exitCode !== 0) {
+    throw new CommandError("'git rev-list' failed - is this a Git repository?");
   }
+  const commits = revList.output.toString('utf8').split('\n').filter(line => line.length > 0);
+
+  // Each commit is read into a scratch index so that its own .gitattributes files apply
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-crypt-audit-'));
+  const indexFile = path.join(tempDir, 'index');
+  const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+  const blobIsEncrypted = new Map<string, boolean>();
+  // Leaks already reported, as PATH NUL OBJECT_ID
+  const reported = new Set<string>();
+  const blobReader = new BlobHeaderReader(cwd);
+  let leaks = 0;
 
-  // Load the key
-  const keyFile = new KeyFile();
-  const success = await keyFile.loadFromFile(internalKeyPath);
-  if (!success) {
-    throw new CommandError(`Error: unable to read key from ${internalKeyPath}`);
+  try {
+    for (const commit of commits) {
+      // GIT_INDEX_FILE=... git read-tree COMMIT
+      if ((await execCommandWithBufferOutput(['git', 'read-tree', commit], env, cwd)).exitCode !== 0) {
+        throw new CommandError("'git read-tree' failed - is this a Git repository?");
+      }
+
+      // GIT_INDEX_FILE=... git ls-files -sz
+      const lsFiles = await execCommandWithBufferOutput(['git', 'ls-files', '-sz'], env, cwd);
+      if (lsFiles.exitCode !== 0) {
+        throw new CommandError("'git ls-files' failed - is this a Git repository?");
+      }
+
+      const entries = parseLsFilesOutput(lsFiles.output).filter(entry => isGitFileMode(entry.mode));
+      const attributes = await getFileAttributesBatch(entries.map(entry => entry.filename), indexFile, cwd);
+
+      for (const { filename, objectId } of entries) {
+        const filterAttr = attributes.get(filename)!.filter;
+        if (filterAttr !== 'git-crypt' && !filterAttr.startsWith('git-crypt-')) {
+          continue;
+        }
+
+        if (!blobIsEncrypted.has(objectId)) {
+          blobIsEncrypted.set(objectId, await blobReader.isEncrypted(objectId));
+        }
+        const leak = `${filename}\0${objectId}`;
+        if (!blobIsEncrypted.get(objectId) && !reported.has(leak)) {
+          reported.add(leak);
+          console.log(`${commit}: ${filename} *** NOT ENCRYPTED ***`);
+          ++leaks;
+        }
+      }
+    }
+  } finally {
+    await blobReader.close();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
   }
 
-  // Save to output file
-  const outputSuccess = await keyFile.storeToFile(keyFilePath);
-  if (!outputSuccess) {
-    throw new CommandError(`Error: unable to write key to ${keyFilePath}`);
+  if (leaks > 0) {
+    console.log('');
+    console.log(`Warning: found ${leaks} unencrypted version${leaks !== 1 ? 's' : ''} of files that are marked for encryption`);
+    console.log('via .gitattributes.  Their contents remain readable in the repository\'s history;');
+    console.log('consider them compromised.');
+    return 1;
   }
 
-  console.log(`Key exported to ${keyFilePath}`);
-  
-  // Clean up sensitive data
-  keyFile.destroy();
-  
+  console.log(`No unencrypted files found in ${commits.length} commit${commits.length !== 1 ? 's' : ''}.`);
   return 0;
 }
 
 /**
- * Generate a new key file
+ * Get the value of a git config variable, or null if it is not set
+ * (with a type, git canonicalizes the value, e.g. expanding a '64m' int)
  */
-export async function keygen(args: string[]): Promise<number> {
-  if (args.length !== 1) {
-    throw new CommandError('Error: git-crypt keygen takes exactly one argument (the key file)');
+async function gitGetConfig(name: string, type?: 'int' | 'bool', cwd?: string): Promise<string | null> {
+  const result = await execCommandWithOutput(['git', 'config', ...(type ? [`--type=${type}`] : []), '--get', name], { cwd });
+  switch (result.exitCode) {
+    case 0: return result.output.replace(/\n$/, '');
+    case 1: return null;
+    default: throw new CommandError("'git config' failed");
   }
+}
 
-  const keyFilePath = args[0];
+/**
+ * List the keys installed in the repository's git directory, with the default key (undefined) first
+ */
+async function getInternalKeyNames(cwd?: string): Promise<Array<string | undefined>> {
+  const keysPath = path.dirname(await getInternalKeyPath(undefined, cwd));
+  const keyNames: Array<string | undefined> = [];
+
+  if (!await isDirectory(keysPath)) {
+    return keyNames;
+  }
+
+  for (const entry of (await getDirectoryContents(keysPath)).sort()) {
+    if (entry === 'default') {
+      keyNames.unshift(undefined);
+    } else if (validateKeyName(entry).valid) {
+      keyNames.push(entry);
+    }
+  }
+
+  return keyNames;
+}
+
+/**
+ * Run a command from git's configuration the way git does: through the shell,
+ * from the top of the working tree, with any arguments appended
+ */
+async function runConfiguredCommand(
+  command: string,
+  args: string[],
+  input: Buffer,
+  cwd: string
+): Promise<{ exitCode: number; output: Buffer; errorOutput: string }> {
+  const child = new Coprocess();
+  const stdin = child.stdinPipe();
+  const stdout = child.stdoutPipe();
+  const stderr = child.stderrPipe();
+  child.spawn(['sh', '-c', `${command} "$@"`, command, ...args], { cwd });
+  stdin.end(input);
+
+  try {
+    const [output, errorOutput] = await Promise.all([collectStream(stdout), collectStream(stderr)]);
+    return { exitCode: await child.wait(), output, errorOutput: errorOutput.toString('utf8').trim() };
+  } finally {
+    child.closeStdout();
+    child.closeStderr();
+  }
+}
+
+/**
+ * Check that the filter and diff commands configured for a key run and round-trip a sample file.
+ * Maps each checked config variable to a description of its problem, or null if it passed.
+ */
+async function checkGitFilters(keyName: string | undefined, topLevel: string, tempDir: string): Promise<Map<string, string | null>> {
+  const attributeName = getAttributeName(keyName);
+  const results = new Map<string, string | null>();
 
-  // Generate new key
   const keyFile = new KeyFile();
-  keyFile.generate();
+  await loadKey(keyFile, keyName, undefined, undefined, topLevel);
 
-  // Save to file
-  const success = await keyFile.storeToFile(keyFilePath);
-  if (!success) {
-    throw new CommandError(`Error: unable to write key to ${keyFilePath}`);
+  try {
+    const plaintext = Buffer.from('git-crypt doctor test file\n');
+    const encrypted = encryptBlob(keyFile, plaintext);
+    const encryptedPath = path.join(tempDir, `${attributeName}.encrypted`);
+    await fs.promises.writeFile(encryptedPath, encrypted);
+
+    // A long-running filter session that cleans and then smudges the sample file
+    const processInput = Buffer.concat([
+      encodePacketList(['git-filter-client', 'version=2']),
+      encodePacketList(['capability=clean', 'capability=smudge']),
+      encodePacketList(['command=clean', 'pathname=git-crypt-doctor']),
+      encodePacketContent(plaintext),
+      encodePacketList(['command=smudge', 'pathname=git-crypt-doctor']),
+      encodePacketContent(encrypted)
+    ]);
+    const processOutput = Buffer.concat([
+      encodePacketList(['git-filter-server', 'version=2']),
+      encodePacketList(['capability=clean', 'capability=smudge']),
+      encodePacketList(['status=success']),
+      encodePacketContent(encrypted),
+      encodePacketList([]),
+      encodePacketList(['status=success']),
+      encodePacketContent(plaintext),
+      encodePacketList([])
+    ]);
+
+    const checks: Array<{ name: string; args: string[]; input: Buffer; expected: Buffer }> = [
+      { name: `filter.${attributeName}.clean`, args: [], input: plaintext, expected: encrypted },
+      { name: `filter.${attributeName}.smudge`, args: [], input: encrypted, expected: plaintext },
+      { name: `filter.${attributeName}.process`, args: [], input: processInput, expected: processOutput },
+      { name: `diff.${attributeName}.textconv`, args: [encryptedPath], input: Buffer.alloc(0), expected: plaintext }
+    ];
+
+    for (const { name, args, input, expected } of checks) {
+      const command = await gitGetConfig(name, undefined, topLevel);
+      if (command === null) {
+        results.set(name, 'not configured');
+        continue;
+      }
+
+      const result = await runConfiguredCommand(command, args, input, topLevel);
+      if (result.exitCode !== 0) {
+        const detail = result.errorOutput.split('\n')[0];
+        results.set(name, `exited with status ${result.exitCode}${detail ? `: ${detail}` : ''}`);
+      } else if (!result.output.equals(expected)) {
+        results.set(name, 'produced unexpected output');
+      } else {
+        results.set(name, null);
+      }
+    }
+
+    const required = await gitGetConfig(`filter.${attributeName}.required`, undefined, topLevel);
+    results.set(`filter.${attributeName}.required`, required === 'true' ? null : 'not set to true');
+  } finally {
+    keyFile.destroy();
   }
 
-  console.log(`Key generated and saved to ${keyFilePath}`);
-  
-  // Clean up sensitive data
-  keyFile.destroy();
-  
-  return 0;
+  return results;
 }
 
 /**
- * Show status of encrypted files
+ * Doctor command: verify that the configured filter commands actually work
  */
-export async function status(args: string[]): Promise<number> {
-  let keyName: string | undefined;
+export async function doctor(args: string[], options: CommandOptions = {}): Promise<number> {
+  const { cwd } = options;
+  const parsed = parseOptions([
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true }
+  ], args);
+  const keyName = parsed.values.keyName;
+
+  if (args.length - parsed.argi !== 0) {
+    console.error('Error: git-crypt doctor takes no arguments');
+    helpDoctor();
+    return 2;
+  }
 
-  // Simple argument parsing (in full implementation would be more comprehensive)
-  if (args.length > 0) {
-    // For now, ignore arguments
+  if (keyName) {
+    validateKeyNameOrThrow(keyName);
+  }
+
+  const keyNames = keyName ? [keyName] : await getInternalKeyNames(cwd);
+  if (keyNames.length === 0 || (keyName && !await fileExists(await getInternalKeyPath(keyName, cwd)))) {
+    throw new CommandError('Error: this repository is not configured with git-crypt');
   }
 
+  const { topLevel } = await getRepoPaths(cwd);
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'git-crypt-doctor-'));
+  let problems = 0;
+
   try {
-    const encryptedFiles = await getEncryptedFiles(keyName);
-    
-    if (encryptedFiles.length === 0) {
-      console.log('No encrypted files found.');
-    } else {
-      console.log('Encrypted files:');
-      for (const file of encryptedFiles) {
-        console.log(`  ${file}`);
+    for (const name of keyNames) {
+      console.log(`Key '${name || 'default'}':`);
+      for (const [check, problem] of await checkGitFilters(name, topLevel, tempDir)) {
+        console.log(`  ${check}: ${problem === null ? 'OK' : `FAILED - ${problem}`}`);
+        if (problem !== null) {
+          ++problems;
+        }
       }
     }
-    
-    return 0;
-  } catch (error) {
-    console.error('Error getting encrypted file status');
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+
+  if (problems > 0) {
+    console.log('');
+    console.log(`Found ${problems} problem${problems !== 1 ? 's' : ''} with the git-crypt configuration.`);
+    console.log('Run \'git-crypt unlock\' with a working git-crypt installation to reconfigure the filters.');
     return 1;
   }
+
+  console.log('');
+  console.log('All configured git-crypt commands work.');
+  return 0;
 }
 
 /**
@@ -858,6 +2910,7 @@ export function helpUnlock(): void {
   console.log('Usage: git-crypt unlock [KEYFILE]');
   console.log('');
   console.log('Unlock the repository using the specified key file, or using GPG if no key file is specified.');
+  console.log('Use - to read the key file (raw or base64-encoded) from standard input.');
   console.log('');
 }
 
@@ -871,13 +2924,72 @@ export function helpLock(): void {
   console.log('');
 }
 
+/**
+ * Print help for add-gpg-user command
+ */
+export function helpAddGpgUser(): void {
+  console.log('Usage: git-crypt add-gpg-user [OPTIONS] GPG_USER_ID ...');
+  console.log('');
+  console.log('    -k, --key-name KEYNAME      Add GPG user to given key, instead of default');
+  console.log('    -n, --no-commit             Don\'t automatically commit');
+  console.log('    --trusted                   Assume the GPG user IDs are trusted');
+  console.log('');
+}
+
+/**
+ * Print help for rm-gpg-user command
+ */
+export function helpRmGpgUser(): void {
+  console.log('Usage: git-crypt rm-gpg-user [OPTIONS] GPG_USER_ID ...');
+  console.log('');
+  console.log('    -k, --key-name KEYNAME      Remove user from given key, instead of default');
+  console.log('    -n, --no-commit             Don\'t automatically commit');
+  console.log('    --rotate                    Generate a new key version and re-encrypt all files with it');
+  console.log('');
+  console.log('Files re-encrypted by --rotate cannot be decrypted by the original git-crypt, which');
+  console.log('only ever uses key version 0.');
+  console.log('');
+}
+
+/**
+ * Print help for rotate-key command
+ */
+export function helpRotateKey(): void {
+  console.log('Usage: git-crypt rotate-key [OPTIONS]');
+  console.log('');
+  console.log('    -k, --key-name KEYNAME      Rotate the given key, instead of the default');
+  console.log('    -n, --no-commit             Don\'t automatically commit');
+  console.log('');
+  console.log('Add a new version to the key and re-encrypt all files with it.  Older versions');
+  console.log('are kept so that history can still be decrypted.');
+  console.log('');
+  console.log('The original git-crypt only ever uses key version 0: collaborators still using it');
+  console.log('cannot decrypt the re-encrypted files, nor unlock with the new version.');
+  console.log('');
+}
+
+/**
+ * Print help for ls-gpg-users command
+ */
+export function helpLsGpgUsers(): void {
+  console.log('Usage: git-crypt ls-gpg-users [OPTIONS]');
+  console.log('');
+  console.log('List the GPG users who can decrypt each version of each key.');
+  console.log('');
+  console.log('    --json                      Print the listing as JSON');
+  console.log('');
+}
+
 /**
  * Print help for export-key command
  */
 export function helpExportKey(): void {
-  console.log('Usage: git-crypt export-key [OPTIONS] KEYFILE');
+  console.log('Usage: git-crypt export-key [OPTIONS] FILENAME');
+  console.log('');
+  console.log('    -k, --key-name KEYNAME      Export the given key, instead of the default');
+  console.log('    -f, --force                 Overwrite FILENAME if it already exists');
   console.log('');
-  console.log('Export the repository\'s symmetric key to the specified file.');
+  console.log('When FILENAME is -, export to standard out.');
   console.log('');
 }
 
@@ -891,12 +3003,52 @@ export function helpKeygen(): void {
   console.log('');
 }
 
+/**
+ * Print help for migrate-key command
+ */
+export function helpMigrateKey(): void {
+  console.log('Usage: git-crypt migrate-key OLDFILENAME NEWFILENAME');
+  console.log('       git-crypt migrate-key --in-place FILENAME');
+  console.log('');
+  console.log('Use - to read from standard input/write to standard output');
+  console.log('');
+  console.log('    -i, --in-place              Replace the legacy key file with the migrated key');
+  console.log('');
+}
+
+/**
+ * Print help for audit command
+ */
+export function helpAudit(): void {
+  console.log('Usage: git-crypt audit');
+  console.log('');
+  console.log('Check every commit for files that are marked for encryption but were');
+  console.log('committed unencrypted.  Each unencrypted version is reported once, at the');
+  console.log('commit that introduced it.');
+  console.log('');
+}
+
+/**
+ * Print help for doctor command
+ */
+export function helpDoctor(): void {
+  console.log('Usage: git-crypt doctor [OPTIONS]');
+  console.log('');
+  console.log('    -k, --key-name KEYNAME      Check only the given key, instead of all unlocked keys');
+  console.log('');
+  console.log('Check that the filter and diff commands git is configured to run for each');
+  console.log('unlocked key work, by encrypting and decrypting a sample file with them.');
+  console.log('');
+}
+
 /**
  * Print help for status command
  */
 export function helpStatus(): void {
-  console.log('Usage: git-crypt status [OPTIONS]');
+  console.log('Usage: git-crypt status [OPTIONS] [FILE ...]');
   console.log('');
-  console.log('Display which files are encrypted.');
+  console.log('    -e             Show encrypted files only');
+  console.log('    -u             Show unencrypted files only');
+  console.log('    -f, --fix      Encrypt and commit files that were committed unencrypted');
   console.log('');
 }
\ No newline at end of file
@@ -5,10 +5,10 @@
 
 import * as crypto from 'crypto';
 import { Readable, Writable } from 'stream';
-import { explicitMemset, storeBe32 } from './util';
+import { explicitMemset, storeBe32, writeBuffer } from './util';
+import { AES_KEY_LEN, HMAC_KEY_LEN } from './keyFormat';
 
-export const AES_KEY_LEN = 32;
-export const HMAC_KEY_LEN = 64;
+export { AES_KEY_LEN, HMAC_KEY_LEN };
 
 /**
  * Cryptographic error for encryption/decryption operations
@@ -79,12 +79,15 @@ export class AesCtrEncryptor {
   public static readonly BLOCK_LEN = 16;
   public static readonly MAX_CRYPT_BYTES = 0x100000000 * 16; // Don't encrypt more than this or the CTR value will repeat (2^32 * 16)
 
-  private ecb: AesEcbEncryptor;
-  private ctrValue: Uint8Array;
-  private pad: Uint8Array;
+  private key: Buffer;
+  private nonce: Buffer;
+  private cipher: crypto.Cipher | null;
   private byteCounter: number;
 
-  constructor(key: Uint8Array, nonce: Uint8Array) {
+  /**
+   * Create an encryptor positioned at the given byte offset of the stream (0 by default)
+   */
+  constructor(key: Uint8Array, nonce: Uint8Array, offset = 0) {
     if (key.length !== AesCtrEncryptor.KEY_LEN) {
       throw new CryptoError('AesCtrEncryptor', `Invalid key length: ${key.length}, expected ${AesCtrEncryptor.KEY_LEN}`);
     }
@@ -92,25 +95,55 @@ export class AesCtrEncryptor {
       throw new CryptoError('AesCtrEncryptor', `Invalid nonce length: ${nonce.length}, expected ${AesCtrEncryptor.NONCE_LEN}`);
     }
 
-    this.ecb = new AesEcbEncryptor(key);
-    this.ctrValue = new Uint8Array(AesCtrEncryptor.BLOCK_LEN);
-    this.pad = new Uint8Array(AesCtrEncryptor.BLOCK_LEN);
+    this.key = Buffer.from(key);
+    this.nonce = Buffer.from(nonce);
+    this.cipher = null;
     this.byteCounter = 0;
-
-    // Set first 12 bytes of the CTR value to the nonce
-    this.ctrValue.set(nonce, 0);
+    this.seek(offset);
   }
 
   /**
    * Clean up sensitive data
    */
   destroy(): void {
-    explicitMemset(this.pad, 0);
-    explicitMemset(this.ctrValue, 0);
+    explicitMemset(this.key, 0);
+    explicitMemset(this.nonce, 0);
+    this.cipher = null;
+  }
+
+  /**
+   * Position the keystream at a byte offset, so that processing can resume mid-stream
+   */
+  seek(offset: number): void {
+    if (!Number.isSafeInteger(offset) || offset < 0 || offset >= AesCtrEncryptor.MAX_CRYPT_BYTES) {
+      throw new CryptoError('AesCtrEncryptor.seek', `Invalid offset: ${offset}`);
+    }
+
+    // The counter block is the nonce followed by the (big-endian) 32-bit block number.
+    // Node's aes-256-ctr increments all 128 bits, but MAX_CRYPT_BYTES keeps the block
+    // number from ever wrapping, so only the last 4 bytes change - exactly as in git-crypt.
+    const iv = Buffer.alloc(AesCtrEncryptor.BLOCK_LEN);
+    this.nonce.copy(iv, 0);
+    storeBe32(iv, Math.floor(offset / AesCtrEncryptor.BLOCK_LEN), AesCtrEncryptor.NONCE_LEN);
+
+    try {
+      this.cipher = crypto.createCipheriv('aes-256-ctr', this.key, iv);
+    } catch (error) {
+      throw new CryptoError('AesCtrEncryptor.seek', `Cipher initialization failed: ${error}`);
+    } finally {
+      explicitMemset(iv, 0);
+    }
+
+    // Skip the part of the first block that comes before the offset
+    const skip = offset % AesCtrEncryptor.BLOCK_LEN;
+    if (skip > 0) {
+      this.cipher.update(Buffer.alloc(skip)).fill(0);
+    }
+    this.byteCounter = offset;
   }
 
   /**
-   * Process (encrypt/decrypt) data in-place
+   * Process (encrypt/decrypt) data; input and output may be the same buffer
    */
   process(input: Uint8Array, output: Uint8Array, length?: number): void {
     const len = length !== undefined ? length : Math.min(input.length, output.length);
@@ -118,30 +151,27 @@ export class AesCtrEncryptor {
     if (len > input.length || len > output.length) {
       throw new CryptoError('AesCtrEncryptor.process', 'Length exceeds buffer size');
     }
+    if (!this.cipher) {
+      throw new CryptoError('AesCtrEncryptor.process', 'Encryptor has been destroyed');
+    }
 
-    for (let i = 0; i < len; i++) {
-      if (this.byteCounter % AesCtrEncryptor.BLOCK_LEN === 0) {
-        // Set last 4 bytes of CTR to the (big-endian) block number
-        const blockNumber = Math.floor(this.byteCounter / AesCtrEncryptor.BLOCK_LEN);
-        storeBe32(this.ctrValue, blockNumber, AesCtrEncryptor.NONCE_LEN);
-
-        // Generate a new pad
-        this.ecb.encrypt(this.ctrValue, this.pad);
-      }
-
-      // Encrypt/decrypt one byte
-      output[i] = input[i] ^ this.pad[this.byteCounter % AesCtrEncryptor.BLOCK_LEN];
-      this.byteCounter++;
+    // Refuse to go near the wrap-around of the block counter (only after a huge amount of data)
+    if (this.byteCounter + len >= AesCtrEncryptor.MAX_CRYPT_BYTES) {
+      throw new CryptoError('AesCtrEncryptor.process', 'Exceeded maximum secure encryption length');
+    }
 
-      // Check for wrap-around (only after a huge amount of data)
-      if (this.byteCounter >= AesCtrEncryptor.MAX_CRYPT_BYTES) {
-        throw new CryptoError('AesCtrEncryptor.process', 'Exceeded maximum secure encryption length');
-      }
+    if (len === 0) {
+      return;
     }
+
+    const result = this.cipher.update(input.subarray(0, len));
+    output.set(result);
+    result.fill(0);
+    this.byteCounter += len;
   }
 
   /**
-   * Process an entire stream
+   * Process an entire stream, chunk by chunk (the output stream is not ended)
    */
   static async processStream(
     input: Readable,
@@ -150,61 +180,16 @@ export class AesCtrEncryptor {
     nonce: Uint8Array
   ): Promise<void> {
     const encryptor = new AesCtrEncryptor(key, nonce);
-    
+
     try {
-      return new Promise((resolve, reject) => {
-        const buffer = Buffer.alloc(1024);
-        let processing = false;
-
-        const processChunk = () => {
-          if (processing) return;
-          processing = true;
-
-          const chunk = input.read();
-          if (chunk === null) {
-            if (input.readableEnded) {
-              encryptor.destroy();
-              resolve();
-            } else {
-              processing = false;
-            }
-            return;
-          }
-
-          try {
-            const chunkSize = Math.min(chunk.length, buffer.length);
-            const inputChunk = new Uint8Array(chunk.buffer, chunk.byteOffset, chunkSize);
-            const outputChunk = new Uint8Array(chunkSize);
-            
-            encryptor.process(inputChunk, outputChunk, chunkSize);
-            
-            output.write(Buffer.from(outputChunk), (error) => {
-              processing = false;
-              if (error) {
-                encryptor.destroy();
-                reject(error);
-              } else {
-                setImmediate(processChunk);
-              }
-            });
-          } catch (error) {
-            encryptor.destroy();
-            reject(error);
-          }
-        };
-
-        input.on('readable', processChunk);
-        input.on('end', processChunk);
-        input.on('error', (error) => {
-          encryptor.destroy();
-          reject(error);
-        });
-
-        processChunk();
-      });
-    } catch (error) {
+      for await (const chunk of input) {
+        const data: Buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        const processed = Buffer.alloc(data.length);
+        encryptor.process(data, processed);
+        await writeBuffer(output, processed);
+      }
+    } finally {
       encryptor.destroy();
-      throw error;
     }
   }
 }
@@ -10,15 +10,37 @@ import {
   exportKey,
   keygen,
   status,
+  audit,
+  doctor,
+  clean,
+  smudge,
+  diff,
+  filterProcess,
+  addGpgUser,
+  rmGpgUser,
+  rotateKey,
+  lsGpgUsers,
+  migrateKey,
   helpInit,
   helpUnlock,
   helpLock,
   helpExportKey,
   helpKeygen,
   helpStatus,
+  helpAudit,
+  helpDoctor,
+  helpAddGpgUser,
+  helpRmGpgUser,
+  helpRotateKey,
+  helpLsGpgUsers,
+  helpMigrateKey,
   CommandError
 } from './commands';
 import { initCrypto } from './crypto';
+import { MalformedKeyFileError, IncompatibleKeyFileError } from './key';
+import { GpgError } from './gpg';
+import { OptionError } from './parseOptions';
+import { PktLineError } from './pktLine';
 import { initStdStreams } from './util';
 
 /**
@@ -40,10 +62,15 @@ function printUsage(): void {
   console.log('Common commands:');
   console.log('  init                 generate a key and prepare repo to use git-crypt');
   console.log('  status               display which files are encrypted');
+  console.log('  audit                find files committed unencrypted anywhere in history');
+  console.log('  doctor               check that the configured git filter commands work');
   console.log('  lock                 de-configure git-crypt and re-encrypt files in work tree');
+  console.log('  rotate-key           add a new key version and re-encrypt files with it');
   console.log('');
   console.log('GPG commands:');
   console.log('  add-gpg-user USERID  add the user with the given GPG user ID as a collaborator');
+  console.log('  rm-gpg-user USERID   remove the user with the given GPG user ID as a collaborator');
+  console.log('  ls-gpg-users         list the GPG key IDs of collaborators');
   console.log('  unlock               decrypt this repo using the in-repo GPG-encrypted key');
   console.log('');
   console.log('Symmetric key commands:');
@@ -79,6 +106,18 @@ function helpForCommand(command: string): boolean {
     case 'lock':
       helpLock();
       return true;
+    case 'add-gpg-user':
+      helpAddGpgUser();
+      return true;
+    case 'rm-gpg-user':
+      helpRmGpgUser();
+      return true;
+    case 'rotate-key':
+      helpRotateKey();
+      return true;
+    case 'ls-gpg-users':
+      helpLsGpgUsers();
+      return true;
     case 'export-key':
       helpExportKey();
       return true;
@@ -88,6 +127,15 @@ function helpForCommand(command: string): boolean {
     case 'status':
       helpStatus();
       return true;
+    case 'audit':
+      helpAudit();
+      return true;
+    case 'doctor':
+      helpDoctor();
+      return true;
+    case 'migrate-key':
+      helpMigrateKey();
+      return true;
     default:
       return false;
   }
@@ -153,36 +201,41 @@ export async function main(argv: string[]): Promise<number> {
       case 'status':
         return await status(commandArgs);
 
-      // Plumbing commands (simplified implementations)
+      case 'audit':
+        return await audit(commandArgs);
+
+      case 'doctor':
+        return await doctor(commandArgs);
+
+      case 'rotate-key':
+        return await rotateKey(commandArgs);
+
+      // Plumbing commands (executed by git, not by user)
       case 'clean':
-        console.error('Error: clean command not implemented in this version');
-        return 1;
+        return await clean(commandArgs);
       
       case 'smudge':
-        console.error('Error: smudge command not implemented in this version');
-        return 1;
+        return await smudge(commandArgs);
       
       case 'diff':
-        console.error('Error: diff command not implemented in this version');
-        return 1;
+        return await diff(commandArgs);
 
-      // GPG commands (not implemented in simplified version)
+      case 'filter-process':
+        return await filterProcess(commandArgs);
+
+      // GPG commands
       case 'add-gpg-user':
-        console.error('Error: GPG commands not implemented in this version');
-        return 1;
-      
+        return await addGpgUser(commandArgs);
+
       case 'rm-gpg-user':
-        console.error('Error: GPG commands not implemented in this version');
-        return 1;
-      
+        return await rmGpgUser(commandArgs);
+
       case 'ls-gpg-users':
-        console.error('Error: GPG commands not implemented in this version');
-        return 1;
+        return await lsGpgUsers(commandArgs);
 
-      // Migration command (not implemented in simplified version)
+      // Legacy commands
       case 'migrate-key':
-        console.error('Error: migrate-key command not implemented in this version');
-        return 1;
+        return await migrateKey(commandArgs);
 
       default:
         console.error(`Error: unknown command '${command}'`);
@@ -193,6 +246,22 @@ export async function main(argv: string[]): Promise<number> {
     if (error instanceof CommandError) {
       console.error(error.message);
       return error.exitCode;
+    } else if (error instanceof OptionError) {
+      console.error(`git-crypt: Error: ${error.message}`);
+      helpForCommand(command);
+      return 2;
+    } else if (error instanceof GpgError) {
+      console.error(`git-crypt: GPG error: ${error.message}`);
+      return 1;
+    } else if (error instanceof PktLineError) {
+      console.error(`git-crypt: filter protocol error: ${error.message}`);
+      return 1;
+    } else if (error instanceof IncompatibleKeyFileError) {
+      console.error('git-crypt: This repository contains a incompatible key file.  Please upgrade git-crypt.');
+      return 1;
+    } else if (error instanceof MalformedKeyFileError) {
+      console.error('git-crypt: This repository contains a malformed key file.  It may be corrupted.');
+      return 1;
     } else {
       console.error(`Error: ${error}`);
       return 1;
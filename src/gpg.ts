@@ -0,0 +1,188 @@
+/*
+ * TypeScript implementation of git-crypt GPG integration
+ * Reference: git-crypt/gpg.cpp, git-crypt/gpg.hpp
+ */
+
+import { Coprocess } from './coprocess';
+import { collectStream, execCommandWithOutput } from './util';
+
+/**
+ * Error reported when a GPG operation fails
+ */
+export class GpgError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GpgError';
+  }
+}
+
+/**
+ * Get the GPG executable, honouring git's gpg.program setting
+ */
+async function gpgGetExecutable(cwd?: string): Promise<string> {
+  try {
+    const result = await execCommandWithOutput(['git', 'config', '--get', 'gpg.program'], { cwd });
+    const program = result.output.split('\n')[0];
+    if (result.exitCode === 0 && program) {
+      return program;
+    }
+  } catch {
+    // fall back to the default below
+  }
+  return 'gpg';
+}
+
+/**
+ * Get the given column (counting from 0) of a line of --with-colons output
+ */
+function gpgNthColumn(line: string, col: number): string {
+  const columns = line.split(':');
+  if (columns.length <= col) {
+    throw new GpgError('Malformed output from gpg');
+  }
+  return columns[col];
+}
+
+/**
+ * Run gpg in the given repository and return its output, throwing if it exits unsuccessfully
+ */
+async function runGpg(args: string[], errorMessage: string, cwd?: string): Promise<Buffer> {
+  const gpg = new Coprocess();
+  const stdout = gpg.stdoutPipe();
+
+  gpg.spawn([await gpgGetExecutable(cwd), ...args], { cwd });
+  gpg.closeStdin();
+
+  try {
+    const output = await collectStream(stdout);
+    if (await gpg.wait() !== 0) {
+      throw new GpgError(errorMessage);
+    }
+    return output;
+  } finally {
+    gpg.closeStdout();
+  }
+}
+
+/**
+ * Return the fingerprints of all secret keys in the local keyring
+ */
+export async function gpgListSecretKeys(cwd?: string): Promise<string[]> {
+  // gpg --batch --with-colons --list-secret-keys --fingerprint
+  const output = await runGpg(
+    ['--batch', '--with-colons', '--list-secret-keys', '--fingerprint'],
+    'gpg --list-secret-keys failed',
+    cwd
+  );
+
+  const secretKeys: string[] = [];
+  for (const line of output.toString('utf8').split('\n')) {
+    if (line.startsWith('fpr:')) {
+      // fpr:::::::::7A399B2DB06D039020CD1CE1D0F3702D61489532:
+      // want the 9th column (counting from 0)
+      secretKeys.push(gpgNthColumn(line, 9));
+    }
+  }
+
+  return secretKeys;
+}
+
+/**
+ * Decrypt a GPG-encrypted file and return its contents
+ */
+export async function gpgDecryptFromFile(filename: string, cwd?: string): Promise<Buffer> {
+  // gpg -q -d FILENAME
+  return runGpg(['-q', '-d', filename], 'Failed to decrypt', cwd);
+}
+
+/**
+ * Given a key fingerprint, return the key's UID (e.g. "John Smith <jsmith@example.com>")
+ */
+export async function gpgGetUid(fingerprint: string, cwd?: string): Promise<string> {
+  // gpg --batch --with-colons --fixed-list-mode --list-keys 0x7A399B2DB06D039020CD1CE1D0F3702D61489532
+  let output: Buffer;
+  try {
+    output = await runGpg(
+      ['--batch', '--with-colons', '--fixed-list-mode', '--list-keys', `0x${fingerprint}`],
+      'gpg --list-keys failed',
+      cwd
+    );
+  } catch (error) {
+    if (error instanceof GpgError) {
+      // This could happen if the keyring does not contain a public key with this fingerprint
+      return '';
+    }
+    throw error;
+  }
+
+  for (const line of output.toString('utf8').split('\n')) {
+    if (line.startsWith('uid:')) {
+      // uid:u::::1395975462::AB97D6E3E5D8789988CA55E5F77D9E7397D05229::John Smith <jsmith@example.com>:
+      // want the 9th column (counting from 0)
+      return gpgNthColumn(line, 9);
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Return the fingerprints of public keys matching the given search query (such as jsmith@example.com)
+ */
+export async function gpgLookupKey(query: string, cwd?: string): Promise<string[]> {
+  // gpg --batch --with-colons --fingerprint --list-keys jsmith@example.com
+  let output: Buffer;
+  try {
+    output = await runGpg(['--batch', '--with-colons', '--fingerprint', '--list-keys', query], 'gpg --list-keys failed', cwd);
+  } catch (error) {
+    if (error instanceof GpgError) {
+      return [];
+    }
+    throw error;
+  }
+
+  const fingerprints: string[] = [];
+  let isPubkey = false;
+  for (const line of output.toString('utf8').split('\n')) {
+    if (line.startsWith('pub:')) {
+      isPubkey = true;
+    } else if (line.startsWith('sub:')) {
+      isPubkey = false;
+    } else if (isPubkey && line.startsWith('fpr:')) {
+      // fpr:::::::::7A399B2DB06D039020CD1CE1D0F3702D61489532:
+      // want the 9th column (counting from 0)
+      fingerprints.push(gpgNthColumn(line, 9));
+    }
+  }
+
+  return fingerprints;
+}
+
+/**
+ * Encrypt data for the given recipient and write it to a file
+ */
+export async function gpgEncryptToFile(
+  filename: string,
+  recipientFingerprint: string,
+  keyIsTrusted: boolean,
+  data: Uint8Array,
+  cwd?: string
+): Promise<void> {
+  // gpg --batch -o FILENAME -r RECIPIENT -e
+  const args = ['--batch'];
+  if (keyIsTrusted) {
+    args.push('--trust-model', 'always');
+  }
+  args.push('-o', filename, '-r', `0x${recipientFingerprint}`, '-e');
+
+  const gpg = new Coprocess();
+  const stdin = gpg.stdinPipe();
+  gpg.spawn([await gpgGetExecutable(cwd), ...args], { cwd });
+
+  // Ending the pipe closes the child's stdin once the data has been flushed
+  stdin.end(Buffer.from(data));
+
+  if (await gpg.wait() !== 0) {
+    throw new GpgError('Failed to encrypt');
+  }
+}
@@ -4,6 +4,8 @@
  * in Node.js and browser environments
  */
 
+import type { EncryptedFileStatus } from './commands';
+
 // Re-export core functionality
 export {
   // Crypto primitives
@@ -28,6 +30,22 @@ export {
   KEY_NAME_MAX_LEN
 } from './key';
 
+export {
+  // Encrypted file format
+  encryptBlob,
+  decryptBlob,
+  tryDecryptBlob,
+  isEncryptedBlob,
+  decryptRange,
+  decryptFileRange,
+  createEncryptStream,
+  createDecryptStream,
+  GITCRYPT_FILE_HEADER,
+  DEFAULT_SPILL_THRESHOLD
+} from './blob';
+
+export type { DecryptResult, EncryptStreamOptions, DecryptStreamOptions } from './blob';
+
 export {
   // Utilities
   SystemError,
@@ -52,11 +70,18 @@ export {
   DEFAULT_BUFFER_SIZE
 } from './fileStream';
 
+export {
+  // GPG integration
+  GpgError
+} from './gpg';
+
 export {
   // Commands (for programmatic use)
   CommandError
 } from './commands';
 
+export type { EncryptedFileStatus } from './commands';
+
 export {
   // Main CLI interface
   main,
@@ -67,6 +92,7 @@ export {
 
 /**
  * Encrypt a file using AES-CTR with the provided key
+ * (raw ciphertext only - use encryptBlob() for the git-crypt file format)
  */
 export async function encryptFile(
   inputPath: string,
@@ -96,6 +122,7 @@ export async function encryptFile(
 
 /**
  * Decrypt a file using AES-CTR with the provided key
+ * (raw ciphertext only - use decryptBlob() for the git-crypt file format)
  */
 export async function decryptFile(
   inputPath: string,
@@ -171,12 +198,12 @@ export async function saveKey(
   keyPath: string,
   keyName?: string
 ): Promise<void> {
-  const { KeyFile, KeyEntry, FORMAT_VERSION } = await import('./key');
+  const { KeyFile, KeyEntry } = await import('./key');
   
   const keyFile = new KeyFile();
   const entry = new KeyEntry();
   
-  entry.version = FORMAT_VERSION;
+  entry.version = 0;
   entry.aesKey.set(aesKey);
   entry.hmacKey.set(hmacKey);
   
@@ -200,40 +227,27 @@ export async function saveKey(
  * Initialize a git repository with git-crypt
  */
 export async function initRepository(repoPath: string, keyName?: string): Promise<void> {
-  const originalCwd = process.cwd();
+  const { init } = await import('./commands');
   
-  try {
-    process.chdir(repoPath);
-    const { init } = await import('./commands');
-    
-    const args = keyName ? ['-k', keyName] : [];
-    const exitCode = await init(args);
-    
-    if (exitCode !== 0) {
-      throw new Error(`git-crypt init failed with exit code ${exitCode}`);
-    }
-  } finally {
-    process.chdir(originalCwd);
+  const args = keyName ? ['-k', keyName] : [];
+  const exitCode = await init(args, { cwd: repoPath });
+  
+  if (exitCode !== 0) {
+    throw new Error(`git-crypt init failed with exit code ${exitCode}`);
   }
 }
 
 /**
- * Unlock a git repository with a key file
+ * Unlock a git repository with a key file (a relative keyPath is resolved against repoPath)
  */
 export async function unlockRepository(repoPath: string, keyPath: string): Promise<void> {
-  const originalCwd = process.cwd();
+  const { resolve } = await import('path');
+  const { unlock } = await import('./commands');
   
-  try {
-    process.chdir(repoPath);
-    const { unlock } = await import('./commands');
-    
-    const exitCode = await unlock([keyPath]);
-    
-    if (exitCode !== 0) {
-      throw new Error(`git-crypt unlock failed with exit code ${exitCode}`);
-    }
-  } finally {
-    process.chdir(originalCwd);
+  const exitCode = await unlock([resolve(repoPath, keyPath)], process.stdin, { cwd: repoPath });
+  
+  if (exitCode !== 0) {
+    throw new Error(`git-crypt unlock failed with exit code ${exitCode}`);
   }
 }
 
@@ -241,42 +255,29 @@ export async function unlockRepository(repoPath: string, keyPath: string): Promi
  * Lock a git repository (re-encrypt files)
  */
 export async function lockRepository(repoPath: string, keyName?: string): Promise<void> {
-  const originalCwd = process.cwd();
+  const { lock } = await import('./commands');
   
-  try {
-    process.chdir(repoPath);
-    const { lock } = await import('./commands');
-    
-    const args = keyName ? ['-k', keyName] : [];
-    const exitCode = await lock(args);
-    
-    if (exitCode !== 0) {
-      throw new Error(`git-crypt lock failed with exit code ${exitCode}`);
-    }
-  } finally {
-    process.chdir(originalCwd);
+  const args = keyName ? ['-k', keyName] : [];
+  const exitCode = await lock(args, { cwd: repoPath });
+  
+  if (exitCode !== 0) {
+    throw new Error(`git-crypt lock failed with exit code ${exitCode}`);
   }
 }
 
 /**
- * Get the status of encrypted files in a repository
+ * Get the status of encrypted files in a repository (paths are relative to repoPath)
  */
-export async function getRepositoryStatus(repoPath: string): Promise<string[]> {
-  const originalCwd = process.cwd();
+export async function getRepositoryStatus(repoPath: string): Promise<EncryptedFileStatus[]> {
+  const { getEncryptedFileStatus } = await import('./commands');
   
-  try {
-    process.chdir(repoPath);
-    // For now, return empty array - would need to implement getEncryptedFiles export
-    return [];
-  } catch (error) {
-    return [];
-  } finally {
-    process.chdir(originalCwd);
-  }
+  return getEncryptedFileStatus({ cwd: repoPath });
 }
 
 /**
- * Browser-compatible API (subset of functionality)
+ * Browser-compatible API (subset of functionality), backed by Node's crypto module.
+ * Bundlers resolve the package to the Web Crypto build in './browser' instead,
+ * through the "browser" field of package.json.
  */
 export const browser = {
   // Crypto operations that work in browser
@@ -323,4 +324,4 @@ export const browser = {
     
     return outputArray.buffer;
   }
-};
\ No newline at end of file
+};
@@ -5,63 +5,34 @@
 
 import * as fs from 'fs';
 import { Readable, Writable } from 'stream';
-import { loadBe32, storeBe32, readBe32, writeBe32, explicitMemset } from './util';
-import { randomBytes, AES_KEY_LEN, HMAC_KEY_LEN } from './crypto';
-
-export { AES_KEY_LEN, HMAC_KEY_LEN };
-
-/**
- * Key file format version
- */
-export const FORMAT_VERSION = 2;
-
-/**
- * Maximum key name length
- */
-export const KEY_NAME_MAX_LEN = 128;
-
-/**
- * Field IDs for header fields
- */
-export enum HeaderField {
-  END = 0,
-  KEY_NAME = 1
-}
-
-/**
- * Field IDs for key entry fields
- */
-export enum KeyField {
-  END = 0,
-  VERSION = 1,
-  AES_KEY = 3,
-  HMAC_KEY = 5
-}
-
-/**
- * Maximum field length to prevent malicious files
- */
-export const MAX_FIELD_LEN = 1 << 20; // 1MB
-
-/**
- * Exception for malformed key files
- */
-export class MalformedKeyFileError extends Error {
-  constructor(message = 'Malformed key file') {
-    super(message);
-    this.name = 'MalformedKeyFileError';
-  }
-}
-
-/**
- * Exception for incompatible key file versions
- */
-export class IncompatibleKeyFileError extends Error {
-  constructor(message = 'Incompatible key file version') {
-    super(message);
-    this.name = 'IncompatibleKeyFileError';
-  }
-}
+import { loadBe32, storeBe32, readBe32, writeBe32, readStreamBytes, isStreamEnded, explicitMemset } from './util';
+import { randomBytes } from './crypto';
+import {
+  AES_KEY_LEN,
+  HMAC_KEY_LEN,
+  FORMAT_VERSION,
+  KEY_NAME_MAX_LEN,
+  HeaderField,
+  KeyField,
+  MAX_FIELD_LEN,
+  MalformedKeyFileError,
+  IncompatibleKeyFileError,
+  KeyFileData,
+  parseKeyFileData,
+  parseLegacyKeyFileData
+} from './keyFormat';
+
+export {
+  AES_KEY_LEN,
+  HMAC_KEY_LEN,
+  FORMAT_VERSION,
+  KEY_NAME_MAX_LEN,
+  HeaderField,
+  KeyField,
+  MAX_FIELD_LEN,
+  MalformedKeyFileError,
+  IncompatibleKeyFileError
+};
 
 /**
  * A single key entry containing AES and HMAC keys
@@ -141,8 +112,7 @@ export class KeyEntry {
     await this.readBytes(stream, this.hmacKey, HMAC_KEY_LEN);
 
     // Check for trailing data
-    const nextByte = stream.read(1);
-    if (nextByte !== null) {
+    if (!await isStreamEnded(stream)) {
       throw new MalformedKeyFileError('Unexpected trailing data in legacy key file');
     }
   }
@@ -191,77 +161,22 @@ export class KeyEntry {
    * Helper to read exact number of bytes
    */
   private async readBytes(stream: Readable, buffer: Uint8Array, length: number): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let bytesRead = 0;
-      const tempBuffer = Buffer.alloc(length);
-
-      const onData = (chunk: Buffer) => {
-        const toCopy = Math.min(chunk.length, length - bytesRead);
-        chunk.copy(tempBuffer, bytesRead, 0, toCopy);
-        bytesRead += toCopy;
-
-        if (bytesRead === length) {
-          stream.removeListener('data', onData);
-          stream.removeListener('end', onEnd);
-          stream.removeListener('error', onError);
-          buffer.set(tempBuffer);
-          resolve();
-        }
-      };
-
-      const onEnd = () => {
-        stream.removeListener('data', onData);
-        stream.removeListener('error', onError);
-        reject(new MalformedKeyFileError(`Unexpected end of stream, read ${bytesRead}/${length} bytes`));
-      };
-
-      const onError = (error: Error) => {
-        stream.removeListener('data', onData);
-        stream.removeListener('end', onEnd);
-        reject(error);
-      };
-
-      stream.on('data', onData);
-      stream.on('end', onEnd);
-      stream.on('error', onError);
-    });
+    const data = await readStreamBytes(stream, length);
+    if (data.length !== length) {
+      throw new MalformedKeyFileError(`Unexpected end of stream, read ${data.length}/${length} bytes`);
+    }
+    buffer.set(data);
+    data.fill(0);
   }
 
   /**
    * Helper to skip bytes in stream
    */
   private async skipBytes(stream: Readable, length: number): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let bytesSkipped = 0;
-
-      const onData = (chunk: Buffer) => {
-        const toSkip = Math.min(chunk.length, length - bytesSkipped);
-        bytesSkipped += toSkip;
-
-        if (bytesSkipped === length) {
-          stream.removeListener('data', onData);
-          stream.removeListener('end', onEnd);
-          stream.removeListener('error', onError);
-          resolve();
-        }
-      };
-
-      const onEnd = () => {
-        stream.removeListener('data', onData);
-        stream.removeListener('error', onError);
-        reject(new MalformedKeyFileError(`Unexpected end of stream while skipping ${bytesSkipped}/${length} bytes`));
-      };
-
-      const onError = (error: Error) => {
-        stream.removeListener('data', onData);
-        stream.removeListener('end', onEnd);
-        reject(error);
-      };
-
-      stream.on('data', onData);
-      stream.on('end', onEnd);
-      stream.on('error', onError);
-    });
+    const skipped = (await readStreamBytes(stream, length)).length;
+    if (skipped !== length) {
+      throw new MalformedKeyFileError(`Unexpected end of stream while skipping ${skipped}/${length} bytes`);
+    }
   }
 
   /**
@@ -349,15 +264,7 @@ export class KeyFile {
     await this.loadHeader(stream);
 
     // Load key entries
-    while (true) {
-      // Check if there's more data
-      const nextByte = stream.read(1);
-      if (nextByte === null) {
-        break;
-      }
-      
-      // Put the byte back and read the entry
-      stream.unshift(nextByte);
+    while (!await isStreamEnded(stream)) {
       const entry = new KeyEntry();
       await entry.load(stream);
       this.add(entry);
@@ -385,6 +292,20 @@ export class KeyFile {
     }
   }
 
+  /**
+   * Load key file from buffer (new format)
+   */
+  async loadFromBuffer(buffer: Uint8Array): Promise<void> {
+    this.addParsed(parseKeyFileData(buffer));
+  }
+
+  /**
+   * Load key file from buffer (legacy format)
+   */
+  async loadLegacyFromBuffer(buffer: Uint8Array): Promise<void> {
+    this.addParsed(parseLegacyKeyFileData(buffer));
+  }
+
   /**
    * Load key file from file
    */
@@ -466,10 +387,21 @@ export class KeyFile {
   generate(): void {
     this.entries.clear();
     const entry = new KeyEntry();
-    entry.generate(FORMAT_VERSION);
+    entry.generate(0);
     this.add(entry);
   }
 
+  /**
+   * Generate a new entry with the next version number, keeping existing entries
+   */
+  generateNextVersion(): KeyEntry {
+    const version = this.isEmpty() ? 0 : this.getLatestVersion() + 1;
+    const entry = new KeyEntry();
+    entry.generate(version);
+    this.add(entry);
+    return entry;
+  }
+
   /**
    * Check if key file is empty
    */
@@ -494,6 +426,13 @@ export class KeyFile {
     return Math.max(...this.entries.keys());
   }
 
+  /**
+   * Get all version numbers, latest first
+   */
+  getVersions(): number[] {
+    return Array.from(this.entries.keys()).sort((a, b) => b - a);
+  }
+
   /**
    * Set key name
    */
@@ -556,6 +495,25 @@ export class KeyFile {
     }
   }
 
+  /**
+   * Add the entries of a parsed key file, wiping the parsed copies of the keys
+   */
+  private addParsed(parsed: KeyFileData): void {
+    if (parsed.keyName !== null) {
+      this.keyName = parsed.keyName;
+    }
+
+    for (const parsedEntry of parsed.entries) {
+      const entry = new KeyEntry();
+      entry.version = parsedEntry.version;
+      entry.aesKey.set(parsedEntry.aesKey);
+      entry.hmacKey.set(parsedEntry.hmacKey);
+      explicitMemset(parsedEntry.aesKey, 0);
+      explicitMemset(parsedEntry.hmacKey, 0);
+      this.add(entry);
+    }
+  }
+
   /**
    * Store header to stream
    */
@@ -573,76 +531,21 @@ export class KeyFile {
    * Read exact number of bytes from stream
    */
   private async readExactBytes(stream: Readable, length: number): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      let bytesRead = 0;
-      const buffer = Buffer.alloc(length);
-
-      const onData = (chunk: Buffer) => {
-        const toCopy = Math.min(chunk.length, length - bytesRead);
-        chunk.copy(buffer, bytesRead, 0, toCopy);
-        bytesRead += toCopy;
-
-        if (bytesRead === length) {
-          stream.removeListener('data', onData);
-          stream.removeListener('end', onEnd);
-          stream.removeListener('error', onError);
-          resolve(buffer);
-        }
-      };
-
-      const onEnd = () => {
-        stream.removeListener('data', onData);
-        stream.removeListener('error', onError);
-        reject(new MalformedKeyFileError(`Unexpected end of stream, read ${bytesRead}/${length} bytes`));
-      };
-
-      const onError = (error: Error) => {
-        stream.removeListener('data', onData);
-        stream.removeListener('end', onEnd);
-        reject(error);
-      };
-
-      stream.on('data', onData);
-      stream.on('end', onEnd);
-      stream.on('error', onError);
-    });
+    const data = await readStreamBytes(stream, length);
+    if (data.length !== length) {
+      throw new MalformedKeyFileError(`Unexpected end of stream, read ${data.length}/${length} bytes`);
+    }
+    return data;
   }
 
   /**
    * Skip exact number of bytes in stream
    */
   private async skipExactBytes(stream: Readable, length: number): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let bytesSkipped = 0;
-
-      const onData = (chunk: Buffer) => {
-        const toSkip = Math.min(chunk.length, length - bytesSkipped);
-        bytesSkipped += toSkip;
-
-        if (bytesSkipped === length) {
-          stream.removeListener('data', onData);
-          stream.removeListener('end', onEnd);
-          stream.removeListener('error', onError);
-          resolve();
-        }
-      };
-
-      const onEnd = () => {
-        stream.removeListener('data', onData);
-        stream.removeListener('error', onError);
-        reject(new MalformedKeyFileError(`Unexpected end of stream while skipping ${bytesSkipped}/${length} bytes`));
-      };
-
-      const onError = (error: Error) => {
-        stream.removeListener('data', onData);
-        stream.removeListener('end', onEnd);
-        reject(error);
-      };
-
-      stream.on('data', onData);
-      stream.on('end', onEnd);
-      stream.on('error', onError);
-    });
+    const skipped = (await readStreamBytes(stream, length)).length;
+    if (skipped !== length) {
+      throw new MalformedKeyFileError(`Unexpected end of stream while skipping ${skipped}/${length} bytes`);
+    }
   }
 
   /**
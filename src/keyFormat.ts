@@ -0,0 +1,234 @@
+/*
+ * Environment-independent parts of the git-crypt key file format
+ * (no Node.js modules, so that it can be used by the browser build)
+ * Reference: git-crypt/key.cpp, git-crypt/key.hpp
+ */
+
+export const AES_KEY_LEN = 32;
+export const HMAC_KEY_LEN = 64;
+
+/**
+ * Key file format version
+ */
+export const FORMAT_VERSION = 2;
+
+/**
+ * Maximum key name length
+ */
+export const KEY_NAME_MAX_LEN = 128;
+
+/**
+ * Field IDs for header fields
+ */
+export enum HeaderField {
+  END = 0,
+  KEY_NAME = 1
+}
+
+/**
+ * Field IDs for key entry fields
+ */
+export enum KeyField {
+  END = 0,
+  VERSION = 1,
+  AES_KEY = 3,
+  HMAC_KEY = 5
+}
+
+/**
+ * Maximum field length to prevent malicious files
+ */
+export const MAX_FIELD_LEN = 1 << 20; // 1MB
+
+/**
+ * Magic bytes at the start of a key file in the current format
+ */
+const KEY_FILE_MAGIC = new Uint8Array([0, ...Array.from('GITCRYPTKEY', c => c.charCodeAt(0))]);
+
+/**
+ * Length of the magic bytes plus the format version
+ */
+const PREAMBLE_LEN = 16;
+
+/**
+ * Exception for malformed key files
+ */
+export class MalformedKeyFileError extends Error {
+  constructor(message = 'Malformed key file') {
+    super(message);
+    this.name = 'MalformedKeyFileError';
+  }
+}
+
+/**
+ * Exception for incompatible key file versions
+ */
+export class IncompatibleKeyFileError extends Error {
+  constructor(message = 'Incompatible key file version') {
+    super(message);
+    this.name = 'IncompatibleKeyFileError';
+  }
+}
+
+/**
+ * Keys of a single version, as stored in a key file
+ */
+export interface KeyEntryData {
+  version: number;
+  aesKey: Uint8Array;
+  hmacKey: Uint8Array;
+}
+
+/**
+ * Contents of a key file
+ */
+export interface KeyFileData {
+  /** Name of the key, or null for the default key */
+  keyName: string | null;
+  /** Entries in the order they appear in the file */
+  entries: KeyEntryData[];
+}
+
+/**
+ * Parse a key file in the current format
+ */
+export function parseKeyFileData(data: Uint8Array): KeyFileData {
+  if (data.length < PREAMBLE_LEN) {
+    throw new MalformedKeyFileError('File too short for header');
+  }
+
+  // Check magic bytes
+  if (!KEY_FILE_MAGIC.every((byte, i) => data[i] === byte)) {
+    throw new MalformedKeyFileError('Invalid magic bytes');
+  }
+
+  // Check format version
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const formatVersion = view.getUint32(KEY_FILE_MAGIC.length);
+  if (formatVersion !== FORMAT_VERSION) {
+    throw new IncompatibleKeyFileError(`Unsupported format version: ${formatVersion}`);
+  }
+
+  const keyFile: KeyFileData = { keyName: null, entries: [] };
+  let offset = parseHeader(data, view, PREAMBLE_LEN, keyFile);
+
+  while (offset < data.length) {
+    const entry: KeyEntryData = {
+      version: 0,
+      aesKey: new Uint8Array(AES_KEY_LEN),
+      hmacKey: new Uint8Array(HMAC_KEY_LEN)
+    };
+    offset = parseEntry(data, view, offset, entry);
+    keyFile.entries.push(entry);
+  }
+
+  return keyFile;
+}
+
+/**
+ * Parse a key file in the legacy format: the bare AES key followed by the HMAC key
+ */
+export function parseLegacyKeyFileData(data: Uint8Array): KeyFileData {
+  if (data.length < AES_KEY_LEN + HMAC_KEY_LEN) {
+    throw new MalformedKeyFileError('File too short for legacy format');
+  }
+  if (data.length !== AES_KEY_LEN + HMAC_KEY_LEN) {
+    throw new MalformedKeyFileError('Unexpected trailing data in legacy key file');
+  }
+
+  return {
+    keyName: null,
+    entries: [{
+      version: 0,
+      aesKey: data.slice(0, AES_KEY_LEN),
+      hmacKey: data.slice(AES_KEY_LEN, AES_KEY_LEN + HMAC_KEY_LEN)
+    }]
+  };
+}
+
+/**
+ * Read the length of the field whose ID ends at offset, checking that its data is present
+ */
+function readFieldLength(data: Uint8Array, view: DataView, offset: number, what: string): number {
+  if (offset + 4 > data.length) {
+    throw new MalformedKeyFileError(`Unexpected end of buffer while reading ${what} field length`);
+  }
+
+  const fieldLen = view.getUint32(offset);
+  if (fieldLen > MAX_FIELD_LEN) {
+    throw new MalformedKeyFileError(`${what[0].toUpperCase()}${what.slice(1)} field length too large: ${fieldLen}`);
+  }
+  if (offset + 4 + fieldLen > data.length) {
+    throw new MalformedKeyFileError(`Unexpected end of buffer while reading ${what} field data`);
+  }
+  return fieldLen;
+}
+
+/**
+ * Parse the header fields, returning the offset of the first entry
+ */
+function parseHeader(data: Uint8Array, view: DataView, offset: number, keyFile: KeyFileData): number {
+  while (offset + 4 <= data.length) {
+    const fieldId = view.getUint32(offset);
+    offset += 4;
+
+    if (fieldId === HeaderField.END) {
+      break;
+    }
+
+    const fieldLen = readFieldLength(data, view, offset, 'header');
+    offset += 4;
+
+    if (fieldId === HeaderField.KEY_NAME) {
+      keyFile.keyName = new TextDecoder().decode(data.subarray(offset, offset + fieldLen));
+    } else if (fieldId & 1) {
+      // Unknown critical field
+      throw new IncompatibleKeyFileError(`Unknown critical header field: ${fieldId}`);
+    }
+    // Unknown non-critical fields are safe to ignore
+    offset += fieldLen;
+  }
+
+  return offset;
+}
+
+/**
+ * Parse the fields of one entry, returning the offset after it
+ */
+function parseEntry(data: Uint8Array, view: DataView, offset: number, entry: KeyEntryData): number {
+  while (offset + 4 <= data.length) {
+    const fieldId = view.getUint32(offset);
+    offset += 4;
+
+    if (fieldId === KeyField.END) {
+      break;
+    }
+
+    const fieldLen = readFieldLength(data, view, offset, 'entry');
+    offset += 4;
+
+    if (fieldId === KeyField.VERSION) {
+      if (fieldLen !== 4) {
+        throw new MalformedKeyFileError(`Invalid version field length: ${fieldLen}`);
+      }
+      entry.version = view.getUint32(offset);
+    } else if (fieldId === KeyField.AES_KEY) {
+      if (fieldLen !== AES_KEY_LEN) {
+        throw new MalformedKeyFileError(`Invalid AES key field length: ${fieldLen}`);
+      }
+      entry.aesKey.set(data.subarray(offset, offset + AES_KEY_LEN));
+    } else if (fieldId === KeyField.HMAC_KEY) {
+      if (fieldLen !== HMAC_KEY_LEN) {
+        throw new MalformedKeyFileError(`Invalid HMAC key field length: ${fieldLen}`);
+      }
+      entry.hmacKey.set(data.subarray(offset, offset + HMAC_KEY_LEN));
+    } else if (fieldId & 1) {
+      // Unknown critical field
+      throw new IncompatibleKeyFileError(`Unknown critical entry field: ${fieldId}`);
+    }
+    // Unknown non-critical fields are safe to ignore
+    offset += fieldLen;
+  }
+
+  return offset;
+}
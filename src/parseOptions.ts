@@ -0,0 +1,120 @@
+/*
+ * TypeScript implementation of git-crypt command-line option parsing
+ * Reference: git-crypt/parse_options.cpp, git-crypt/parse_options.hpp
+ */
+
+/**
+ * Definition of a single command-line option
+ */
+export interface OptionDef {
+  /** Option name as typed, e.g. '-k' or '--key-name' */
+  name: string;
+  /** Property name the parsed option is stored under */
+  key: string;
+  /** Whether the option takes a value (otherwise it is a boolean flag) */
+  takesValue?: boolean;
+}
+
+/**
+ * Result of parsing command-line options
+ */
+export interface ParsedOptions {
+  /** Values of options that take a value, by key */
+  values: Record<string, string>;
+  /** Flags that were set, by key */
+  flags: Record<string, boolean>;
+  /** Index of the first non-option argument */
+  argi: number;
+}
+
+/**
+ * Error for invalid command-line options
+ */
+export class OptionError extends Error {
+  public readonly optionName: string;
+
+  constructor(optionName: string, message: string) {
+    super(`${optionName}: ${message}`);
+    this.name = 'OptionError';
+    this.optionName = optionName;
+  }
+}
+
+/**
+ * Find an option definition by name
+ */
+function findOption(options: OptionDef[], name: string): OptionDef | undefined {
+  return options.find(option => option.name === name);
+}
+
+/**
+ * Parse leading options from args, stopping at the first non-option argument or '--'
+ */
+export function parseOptions(options: OptionDef[], args: string[]): ParsedOptions {
+  const result: ParsedOptions = { values: {}, flags: {}, argi: 0 };
+  let argi = 0;
+
+  while (argi < args.length && args[argi].startsWith('-') && args[argi].length > 1) {
+    const arg = args[argi];
+    ++argi;
+
+    if (arg === '--') {
+      break;
+    }
+
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const optionName = eq === -1 ? arg : arg.slice(0, eq);
+      const optionValue = eq === -1 ? undefined : arg.slice(eq + 1);
+
+      const option = findOption(options, optionName);
+      if (!option) {
+        throw new OptionError(optionName, 'Invalid option');
+      }
+
+      if (option.takesValue) {
+        if (optionValue !== undefined) {
+          result.values[option.key] = optionValue;
+        } else {
+          if (argi >= args.length) {
+            throw new OptionError(optionName, 'Option requires a value');
+          }
+          result.values[option.key] = args[argi];
+          ++argi;
+        }
+      } else {
+        if (optionValue !== undefined) {
+          throw new OptionError(optionName, 'Option takes no value');
+        }
+        result.flags[option.key] = true;
+      }
+    } else {
+      // Bundled short options, e.g. -ef or -kNAME
+      for (let i = 1; i < arg.length; i++) {
+        const optionName = `-${arg[i]}`;
+        const option = findOption(options, optionName);
+        if (!option) {
+          throw new OptionError(optionName, 'Invalid option');
+        }
+
+        if (option.takesValue) {
+          if (i + 1 < arg.length) {
+            result.values[option.key] = arg.slice(i + 1);
+          } else {
+            if (argi >= args.length) {
+              throw new OptionError(optionName, 'Option requires a value');
+            }
+            result.values[option.key] = args[argi];
+            ++argi;
+          }
+          break;
+        }
+
+        result.flags[option.key] = true;
+      }
+    }
+  }
+
+  result.argi = argi;
+  return result;
+}
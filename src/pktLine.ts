@@ -0,0 +1,145 @@
+/*
+ * TypeScript implementation of git's pkt-line framing, as used by the
+ * long-running filter process protocol
+ * Reference: git/pkt-line.c, git/Documentation/gitprotocol-common.txt
+ */
+
+import { Readable, Writable } from 'stream';
+import { readStreamBytes, writeBuffer } from './util';
+
+/**
+ * Maximum number of data bytes in a single packet (65520 minus the 4-byte length)
+ */
+export const PKT_LINE_MAX_DATA_LEN = 65516;
+
+/**
+ * Length prefix of a flush packet, which ends a list of packets
+ */
+const FLUSH_PKT = Buffer.from('0000', 'ascii');
+
+/**
+ * Error for malformed pkt-line input
+ */
+export class PktLineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PktLineError';
+  }
+}
+
+/**
+ * Read one packet and return its data, or null for a flush packet
+ */
+export async function readPacket(input: Readable): Promise<Buffer | null> {
+  const header = await readStreamBytes(input, 4);
+  if (header.length !== 4) {
+    throw new PktLineError('unexpected end of input');
+  }
+
+  const text = header.toString('ascii');
+  if (!/^[0-9a-f]{4}$/i.test(text)) {
+    throw new PktLineError(`invalid packet length '${text}'`);
+  }
+
+  const length = parseInt(text, 16);
+  if (length === 0) {
+    return null;
+  }
+  if (length <= 4 || length - 4 > PKT_LINE_MAX_DATA_LEN) {
+    throw new PktLineError(`invalid packet length ${length}`);
+  }
+
+  const data = await readStreamBytes(input, length - 4);
+  if (data.length !== length - 4) {
+    throw new PktLineError('unexpected end of input');
+  }
+  return data;
+}
+
+/**
+ * Read text packets up to the next flush packet, without their trailing newlines
+ */
+export async function readPacketList(input: Readable): Promise<string[]> {
+  const lines: string[] = [];
+  for (let packet = await readPacket(input); packet !== null; packet = await readPacket(input)) {
+    lines.push(packet.toString('utf8').replace(/\n$/, ''));
+  }
+  return lines;
+}
+
+/**
+ * Read binary packets up to the next flush packet, yielding the data of each as it arrives
+ */
+export async function* readPacketChunks(input: Readable): AsyncGenerator<Buffer> {
+  for (let packet = await readPacket(input); packet !== null; packet = await readPacket(input)) {
+    yield packet;
+  }
+}
+
+/**
+ * Read binary packets up to the next flush packet and return their concatenated data
+ */
+export async function readPacketContent(input: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for (let packet = await readPacket(input); packet !== null; packet = await readPacket(input)) {
+    chunks.push(packet);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Encode data as a single packet
+ */
+export function encodePacket(data: Uint8Array): Buffer {
+  if (data.length === 0 || data.length > PKT_LINE_MAX_DATA_LEN) {
+    throw new PktLineError(`invalid packet data length ${data.length}`);
+  }
+  const header = Buffer.from((data.length + 4).toString(16).padStart(4, '0'), 'ascii');
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Encode text lines as packets, each with a trailing newline, followed by a flush packet
+ */
+export function encodePacketList(lines: string[]): Buffer {
+  return Buffer.concat([...lines.map(line => encodePacket(Buffer.from(`${line}\n`, 'utf8'))), FLUSH_PKT]);
+}
+
+/**
+ * Encode binary data as as many packets as needed
+ */
+function encodePacketData(data: Uint8Array): Buffer {
+  const packets: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += PKT_LINE_MAX_DATA_LEN) {
+    packets.push(encodePacket(data.subarray(offset, offset + PKT_LINE_MAX_DATA_LEN)));
+  }
+  return Buffer.concat(packets);
+}
+
+/**
+ * Encode binary data as as many packets as needed, followed by a flush packet
+ */
+export function encodePacketContent(data: Uint8Array): Buffer {
+  return Buffer.concat([encodePacketData(data), FLUSH_PKT]);
+}
+
+/**
+ * Write text lines as packets, followed by a flush packet
+ */
+export async function writePacketList(output: Writable, lines: string[]): Promise<void> {
+  await writeBuffer(output, encodePacketList(lines));
+}
+
+/**
+ * Write part of some binary content as packets, without the flush packet that ends it
+ */
+export async function writePacketData(output: Writable, data: Uint8Array): Promise<void> {
+  await writeBuffer(output, encodePacketData(data));
+}
+
+/**
+ * Write binary data as packets, followed by a flush packet
+ */
+export async function writePacketContent(output: Writable, data: Uint8Array): Promise<void> {
+  await writeBuffer(output, encodePacketContent(data));
+}
@@ -0,0 +1,53 @@
+/*
+ * Worker thread entry point that decrypts files for the long-running filter process
+ */
+
+import { parentPort, TransferListItem, workerData } from 'worker_threads';
+import { KeyFile } from './key';
+import { tryDecryptBlob } from './blob';
+import { WorkerReply, transferList } from './workerPool';
+
+/**
+ * Data every smudge worker starts with
+ */
+export interface SmudgeWorkerData {
+  /** Key file in its serialized format */
+  keyData: Uint8Array;
+}
+
+/**
+ * A file to decrypt
+ */
+export interface SmudgeTask {
+  /** Encrypted file, preferably transferred rather than copied */
+  data: Uint8Array;
+}
+
+/**
+ * Decrypted contents of a file
+ */
+export interface SmudgeResult {
+  plaintext: Uint8Array;
+  /** Whether the HMAC of the plaintext matches the nonce */
+  verified: boolean;
+}
+
+if (parentPort) {
+  const port = parentPort;
+  const keyFile = new KeyFile();
+  const keyLoaded = keyFile.loadFromBuffer(Buffer.from((workerData as SmudgeWorkerData).keyData));
+
+  port.on('message', async ({ data }: SmudgeTask) => {
+    let reply: WorkerReply<SmudgeResult>;
+    let transfer: TransferListItem[] = [];
+    try {
+      await keyLoaded;
+      const { plaintext, verified } = tryDecryptBlob(keyFile, data);
+      reply = { result: { plaintext, verified } };
+      transfer = transferList(plaintext);
+    } catch (error) {
+      reply = { error: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(reply, transfer);
+  });
+}
@@ -36,6 +36,11 @@ export class GitCryptError extends Error {
   }
 }
 
+/**
+ * Number of names tried when exclusively creating a temporary file
+ */
+const TEMP_FILE_ATTEMPTS = 10;
+
 /**
  * Temporary file stream that auto-deletes on close
  */
@@ -46,17 +51,46 @@ export class TempFileStream {
   constructor() {}
 
   /**
-   * Open a temporary file for writing
+   * Open a temporary file for writing. With 'wx+' the file is created exclusively,
+   * so a file or symlink planted under the same name is never followed; another
+   * name is tried if one already exists.
    */
-  async open(mode: 'r' | 'w' | 'r+' = 'w'): Promise<fs.promises.FileHandle> {
+  async open(mode: 'r' | 'w' | 'r+' | 'wx+' = 'w'): Promise<fs.promises.FileHandle> {
     const tmpDir = process.env.TMPDIR || process.env.TMP || '/tmp';
-    this.filename = path.join(tmpDir, `git-crypt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
-    
+
+    for (let attempt = 1; ; attempt++) {
+      const filename = path.join(tmpDir, `git-crypt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+
+      try {
+        this.fileHandle = await fs.promises.open(filename, mode, 0o600);
+        this.filename = filename;
+        return this.fileHandle;
+      } catch (error: any) {
+        if (mode === 'wx+' && error.code === 'EEXIST' && attempt < TEMP_FILE_ATTEMPTS) {
+          continue;
+        }
+        throw new SystemError('open', filename, error.errno || -1);
+      }
+    }
+  }
+
+  /**
+   * Overwrite the contents of the temporary file with zeros
+   */
+  async wipe(): Promise<void> {
+    if (!this.fileHandle || !this.filename) {
+      return;
+    }
+
     try {
-      this.fileHandle = await fs.promises.open(this.filename, mode, 0o600);
-      return this.fileHandle;
+      const { size } = await this.fileHandle.stat();
+      const zeros = Buffer.alloc(Math.min(size, 64 * 1024));
+      for (let position = 0; position < size; position += zeros.length) {
+        await this.fileHandle.write(zeros, 0, Math.min(zeros.length, size - position), position);
+      }
+      await this.fileHandle.sync();
     } catch (error: any) {
-      throw new SystemError('open', this.filename, error.errno || -1);
+      throw new SystemError('wipe', this.filename, error.errno || -1);
     }
   }
 
@@ -103,16 +137,37 @@ export async function mkdirParent(filePath: string): Promise<void> {
 }
 
 /**
- * Get the path of the current executable
+ * Get the path of the git-crypt CLI entry script (dist/cli.js), resolving npm bin shim symlinks
  */
 export function getExecutablePath(): string {
-  return process.execPath;
+  const entryScript = path.join(__dirname, 'cli.js');
+  try {
+    return fs.realpathSync(entryScript);
+  } catch {
+    return entryScript;
+  }
+}
+
+/**
+ * Get the shell command that runs the git-crypt CLI, for use in git configuration.
+ * The entry script is run with the current Node binary, which need not be on git's PATH.
+ */
+export function getGitCryptCommand(): string {
+  return `${escapeShellArg(process.execPath)} ${escapeShellArg(getExecutablePath())}`;
+}
+
+/**
+ * Options for executing a command
+ */
+export interface ExecOptions {
+  /** Working directory of the command (defaults to the process working directory) */
+  cwd?: string;
 }
 
 /**
  * Execute a command and return the exit code
  */
-export async function execCommand(args: string[]): Promise<number> {
+export async function execCommand(args: string[], execOptions: ExecOptions = {}): Promise<number> {
   return new Promise((resolve, reject) => {
     if (args.length === 0) {
       reject(new GitCryptError('No command specified'));
@@ -121,6 +176,7 @@ export async function execCommand(args: string[]): Promise<number> {
 
     const [command, ...commandArgs] = args;
     const options: SpawnOptions = {
+      cwd: execOptions.cwd,
       stdio: 'inherit',
       shell: false
     };
@@ -144,7 +200,10 @@ export async function execCommand(args: string[]): Promise<number> {
 /**
  * Execute a command and capture its output
  */
-export async function execCommandWithOutput(args: string[]): Promise<{ exitCode: number; output: string }> {
+export async function execCommandWithOutput(
+  args: string[],
+  execOptions: ExecOptions = {}
+): Promise<{ exitCode: number; output: string }> {
   return new Promise((resolve, reject) => {
     if (args.length === 0) {
       reject(new GitCryptError('No command specified'));
@@ -153,6 +212,7 @@ export async function execCommandWithOutput(args: string[]): Promise<{ exitCode:
 
     const [command, ...commandArgs] = args;
     const options: SpawnOptions = {
+      cwd: execOptions.cwd,
       stdio: ['pipe', 'pipe', 'inherit'],
       shell: false
     };
@@ -170,7 +230,8 @@ export async function execCommandWithOutput(args: string[]): Promise<{ exitCode:
       reject(new SystemError('exec', command, (error as any).errno || -1));
     });
 
-    child.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+    // 'close' rather than 'exit': the output may still be buffered when the process exits
+    child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
       const exitCode = signal ? (128 + (process.platform === 'win32' ? 0 : 1)) : (code || 0);
       resolve({ exitCode, output });
     });
@@ -180,7 +241,11 @@ export async function execCommandWithOutput(args: string[]): Promise<{ exitCode:
 /**
  * Execute a command with input data
  */
-export async function execCommandWithInput(args: string[], input: Buffer | string): Promise<number> {
+export async function execCommandWithInput(
+  args: string[],
+  input: Buffer | string,
+  execOptions: ExecOptions = {}
+): Promise<number> {
   return new Promise((resolve, reject) => {
     if (args.length === 0) {
       reject(new GitCryptError('No command specified'));
@@ -189,6 +254,7 @@ export async function execCommandWithInput(args: string[], input: Buffer | strin
 
     const [command, ...commandArgs] = args;
     const options: SpawnOptions = {
+      cwd: execOptions.cwd,
       stdio: ['pipe', 'inherit', 'inherit'],
       shell: false
     };
@@ -282,42 +348,142 @@ export function storeBe32(buffer: Uint8Array, value: number, offset = 0): void {
   buffer[offset + 3] = value & 0xff;
 }
 
+/**
+ * Wait until a paused stream has data to read; resolves false once it has ended
+ */
+function waitReadable(stream: Readable): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      stream.removeListener('readable', onReadable);
+      stream.removeListener('end', onEnd);
+      stream.removeListener('error', onError);
+    };
+    const onReadable = () => {
+      cleanup();
+      resolve(true);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(false);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    stream.on('readable', onReadable);
+    stream.on('end', onEnd);
+    stream.on('error', onError);
+  });
+}
+
+/**
+ * Read up to length bytes from a readable stream, leaving anything beyond them
+ * in the stream for the next read. Returns fewer bytes only if the stream ends.
+ */
+export async function readStreamBytes(stream: Readable, length: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let bytesRead = 0;
+
+  while (bytesRead < length) {
+    const chunk: Buffer | string | null = stream.read();
+    if (chunk === null) {
+      if (stream.readableEnded || !await waitReadable(stream)) {
+        break;
+      }
+      continue;
+    }
+
+    const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    const wanted = length - bytesRead;
+    if (data.length > wanted) {
+      stream.unshift(data.subarray(wanted));
+    }
+    chunks.push(data.subarray(0, wanted));
+    bytesRead += Math.min(data.length, wanted);
+  }
+
+  return Buffer.concat(chunks, bytesRead);
+}
+
+/**
+ * Check whether a readable stream has no more data, without consuming any
+ */
+export async function isStreamEnded(stream: Readable): Promise<boolean> {
+  const next = await readStreamBytes(stream, 1);
+  if (next.length === 0) {
+    return true;
+  }
+  stream.unshift(next);
+  return false;
+}
+
 /**
  * Read a 32-bit big-endian integer from a readable stream
  */
 export async function readBe32(stream: Readable): Promise<number | null> {
+  const buffer = await readStreamBytes(stream, 4);
+  return buffer.length === 4 ? loadBe32(buffer) : null;
+}
+
+/**
+ * Write a buffer to a writable stream, resolving once it has been flushed
+ */
+export function writeBuffer(stream: Writable, buffer: Uint8Array): Promise<void> {
   return new Promise((resolve, reject) => {
-    const buffer = Buffer.alloc(4);
-    let bytesRead = 0;
-
-    const onData = (chunk: Buffer) => {
-      const toCopy = Math.min(chunk.length, 4 - bytesRead);
-      chunk.copy(buffer, bytesRead, 0, toCopy);
-      bytesRead += toCopy;
-
-      if (bytesRead === 4) {
-        stream.removeListener('data', onData);
-        stream.removeListener('end', onEnd);
-        stream.removeListener('error', onError);
-        resolve(loadBe32(buffer));
-      }
+    const onError = (error: Error) => {
+      stream.removeListener('error', onError);
+      reject(error);
     };
 
-    const onEnd = () => {
-      stream.removeListener('data', onData);
+    stream.once('error', onError);
+    stream.write(buffer, (error) => {
       stream.removeListener('error', onError);
-      resolve(null);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Read a readable stream to the end and return its contents
+ */
+export async function collectStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // 'end' will not be emitted again, e.g. after readStreamBytes() hit the end
+    if (stream.readableEnded) {
+      resolve(Buffer.alloc(0));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+
+    const onData = (chunk: Buffer | string) => {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
     };
 
     const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+
+    const cleanup = () => {
       stream.removeListener('data', onData);
+      stream.removeListener('error', onError);
       stream.removeListener('end', onEnd);
-      reject(error);
     };
 
     stream.on('data', onData);
-    stream.on('end', onEnd);
-    stream.on('error', onError);
+    stream.once('error', onError);
+    stream.once('end', onEnd);
   });
 }
 
@@ -444,11 +610,7 @@ export async function getFileSize(filePath: string): Promise<number> {
  */
 export function initStdStreams(): void {
   // In Node.js, streams are already optimized
-  // This is mainly for compatibility with the C++ version
-  if (process.stdin.setEncoding) {
-    process.stdin.setEncoding('binary');
-  }
-  if (process.stdout.setEncoding) {
-    process.stdout.setEncoding('binary');
-  }
+  // This is mainly for compatibility with the C++ version.
+  // The filter commands read and write raw bytes, so stdin is left without
+  // an encoding and emits Buffers rather than decoded strings.
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+/*
+ * Pool of worker threads for running CPU-bound tasks in parallel
+ */
+
+import { TransferListItem, Worker } from 'worker_threads';
+
+/**
+ * Error reported when a task fails in, or loses, its worker
+ */
+export class WorkerPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkerPoolError';
+  }
+}
+
+/**
+ * Message a worker posts back for each task: either a result or an error description
+ */
+export interface WorkerReply<R> {
+  result?: R;
+  error?: string;
+}
+
+/**
+ * Buffers of the given views that can be moved to another thread instead of
+ * copied: those whose view spans the whole buffer, so nothing else shares it
+ */
+export function transferList(...views: Uint8Array[]): TransferListItem[] {
+  const buffers: TransferListItem[] = [];
+  for (const { buffer, byteOffset, byteLength } of views) {
+    if (buffer instanceof ArrayBuffer && byteOffset === 0 && byteLength === buffer.byteLength && byteLength > 0) {
+      buffers.push(buffer);
+    }
+  }
+  return buffers;
+}
+
+interface QueuedTask<T, R> {
+  task: T;
+  transfer: TransferListItem[];
+  resolve: (result: R) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs tasks on up to `size` worker threads started from `scriptPath`.
+ * Each worker receives one task at a time as a message and must reply
+ * with a WorkerReply before it is given the next one.
+ */
+export class WorkerPool<T, R> {
+  private readonly workers = new Set<Worker>();
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, QueuedTask<T, R>>();
+  private readonly queue: QueuedTask<T, R>[] = [];
+  private destroyed = false;
+
+  constructor(
+    private readonly scriptPath: string,
+    private readonly size: number,
+    private readonly workerData?: unknown
+  ) {
+    if (size < 1) {
+      throw new WorkerPoolError(`invalid worker pool size ${size}`);
+    }
+  }
+
+  /**
+   * Queue a task and resolve with its result once a worker has run it.
+   * Buffers in `transfer` are moved to the worker, leaving them unusable here.
+   */
+  public run(task: T, transfer: TransferListItem[] = []): Promise<R> {
+    if (this.destroyed) {
+      return Promise.reject(new WorkerPoolError('worker pool has been destroyed'));
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      this.queue.push({ task, transfer, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers, failing any tasks that have not completed
+   */
+  public async destroy(): Promise<void> {
+    this.destroyed = true;
+
+    const error = new WorkerPoolError('worker pool has been destroyed');
+    for (const queued of this.queue.splice(0)) {
+      queued.reject(error);
+    }
+    for (const queued of this.busy.values()) {
+      queued.reject(error);
+    }
+    this.busy.clear();
+    this.idle.length = 0;
+
+    const workers = [...this.workers];
+    this.workers.clear();
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let worker = this.idle.pop();
+      if (!worker) {
+        if (this.workers.size >= this.size) {
+          return;
+        }
+        worker = this.startWorker();
+      }
+
+      const queued = this.queue.shift()!;
+      this.busy.set(worker, queued);
+      worker.postMessage(queued.task, queued.transfer);
+    }
+  }
+
+  private startWorker(): Worker {
+    const worker = new Worker(this.scriptPath, { workerData: this.workerData });
+    this.workers.add(worker);
+
+    worker.on('message', (reply: WorkerReply<R>) => {
+      const queued = this.busy.get(worker);
+      if (!queued) {
+        return;
+      }
+      this.busy.delete(worker);
+      this.idle.push(worker);
+
+      if (reply.error !== undefined) {
+        queued.reject(new WorkerPoolError(reply.error));
+      } else {
+        queued.resolve(reply.result as R);
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', (error: Error) => {
+      this.retireWorker(worker, new WorkerPoolError(`worker failed: ${error.message}`));
+    });
+    worker.on('exit', (code: number) => {
+      this.retireWorker(worker, new WorkerPoolError(`worker exited unexpectedly with code ${code}`));
+    });
+
+    return worker;
+  }
+
+  /**
+   * Forget a worker that died, failing its task; a replacement is started on demand
+   */
+  private retireWorker(worker: Worker, error: Error): void {
+    if (!this.workers.delete(worker)) {
+      return;
+    }
+
+    const idleIndex = this.idle.indexOf(worker);
+    if (idleIndex !== -1) {
+      this.idle.splice(idleIndex, 1);
+    }
+
+    const queued = this.busy.get(worker);
+    this.busy.delete(worker);
+    queued?.reject(error);
+
+    void worker.terminate();
+    this.dispatch();
+  }
+}
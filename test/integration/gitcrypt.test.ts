@@ -1,7 +1,23 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
-import { KeyFile, encryptFile, decryptFile } from '../../src/index';
+import { PassThrough, Readable } from 'stream';
+import { KeyFile, encryptFile, decryptFile, encryptBlob } from '../../src/index';
+import { clean, smudge, diff, filterProcess, migrateKey } from '../../src/commands';
+import { encodePacketList, encodePacketContent, readPacketList, readPacketContent } from '../../src/pktLine';
+
+async function runFilter(
+  filter: (args: string[], input: Readable, output: PassThrough) => Promise<number>,
+  args: string[],
+  input: Buffer
+): Promise<{ exitCode: number; output: Buffer }> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  const exitCode = await filter(args, Readable.from([input]), output);
+  return { exitCode, output: Buffer.concat(chunks) };
+}
 
 describe('Git-Crypt Integration Tests', () => {
   const testFilesDir = path.join(process.cwd(), 'test', 'files');
@@ -133,6 +149,286 @@ describe('Git-Crypt Integration Tests', () => {
     });
   });
 
+  describe('Git Filter Commands', () => {
+    it('should clean files into the exact bytes git-crypt commits', async () => {
+      for (const name of ['test.md', 'second.md']) {
+        const plain = fs.readFileSync(path.join(testFilesDir, name));
+        const expected = fs.readFileSync(path.join(encryptedFilesDir, name));
+
+        const result = await runFilter(clean, ['--key-file', keyFilePath], plain);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.output.equals(expected)).toBe(true);
+      }
+    });
+
+    it('should clean deterministically', async () => {
+      const plain = Buffer.from('same content twice');
+
+      const first = await runFilter(clean, ['--key-file', keyFilePath], plain);
+      const second = await runFilter(clean, ['--key-file', keyFilePath], plain);
+
+      expect(first.output.subarray(0, 10).toString('binary')).toBe('\0GITCRYPT\0');
+      expect(first.output.length).toBe(10 + 12 + plain.length);
+      expect(first.output.equals(second.output)).toBe(true);
+    });
+
+    it('should smudge files encrypted by git-crypt', async () => {
+      for (const name of ['test.md', 'second.md']) {
+        const plain = fs.readFileSync(path.join(testFilesDir, name));
+        const encrypted = fs.readFileSync(path.join(encryptedFilesDir, name));
+
+        const result = await runFilter(smudge, ['--key-file', keyFilePath], encrypted);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.output.equals(plain)).toBe(true);
+      }
+    });
+
+    it('should pass through files that are not encrypted', async () => {
+      const plain = Buffer.from('not encrypted');
+
+      const result = await runFilter(smudge, ['--key-file', keyFilePath], plain);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output.equals(plain)).toBe(true);
+    });
+
+    it('should stream the plaintext while the encrypted file is still arriving', async () => {
+      const large = Buffer.alloc(1024 * 1024, 'large file contents\n');
+      const encrypted = encryptBlob(keyFile, large);
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const chunks: Buffer[] = [];
+      const firstOutput = new Promise<void>(resolve => output.once('data', () => resolve()));
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+      const smudged = smudge(['--key-file', keyFilePath], input, output);
+      // The header arrives in pieces, and output starts before the input has ended
+      input.write(encrypted.subarray(0, 5));
+      input.write(encrypted.subarray(5, 64 * 1024));
+      await firstOutput;
+      input.end(encrypted.subarray(64 * 1024));
+
+      expect(await smudged).toBe(0);
+      expect(Buffer.concat(chunks).equals(large)).toBe(true);
+    });
+
+    it('should pass through large files that are not encrypted, header bytes included', async () => {
+      const plain = Buffer.alloc(256 * 1024 + 3, 'not encrypted\n');
+      const output = new PassThrough();
+      const chunks: Buffer[] = [];
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+      const exitCode = await smudge(['--key-file', keyFilePath], Readable.from([plain.subarray(0, 3), plain.subarray(3)]), output);
+      expect(exitCode).toBe(0);
+      expect(Buffer.concat(chunks).equals(plain)).toBe(true);
+    });
+
+    it('should fail to smudge tampered files', async () => {
+      const encrypted = Buffer.from(fs.readFileSync(path.join(encryptedFilesDir, 'test.md')));
+      encrypted[encrypted.length - 1] ^= 0xff;
+
+      const result = await runFilter(smudge, ['--key-file', keyFilePath], encrypted);
+
+      expect(result.exitCode).toBe(1);
+    });
+
+    it('should diff encrypted and plain files', async () => {
+      for (const [file, expected] of [
+        [path.join(encryptedFilesDir, 'test.md'), path.join(testFilesDir, 'test.md')],
+        [path.join(testFilesDir, 'second.md'), path.join(testFilesDir, 'second.md')]
+      ]) {
+        const result = await runFilter(
+          (args, _input, output) => diff(args, output),
+          ['--key-file', keyFilePath, file],
+          Buffer.alloc(0)
+        );
+
+        expect(result.exitCode).toBe(0);
+        expect(result.output.equals(fs.readFileSync(expected))).toBe(true);
+      }
+    });
+
+    it('should reject unexpected clean arguments', async () => {
+      const result = await runFilter(clean, ['--key-file', keyFilePath, 'extra'], Buffer.alloc(0));
+      expect(result.exitCode).toBe(2);
+    });
+  });
+
+  describe('Long-running Filter Process', () => {
+    function handshake(): Buffer {
+      return Buffer.concat([
+        encodePacketList(['git-filter-client', 'version=2']),
+        encodePacketList(['capability=clean', 'capability=smudge', 'capability=delay'])
+      ]);
+    }
+
+    function request(command: string, pathname: string, content: Buffer): Buffer {
+      return Buffer.concat([encodePacketList([`command=${command}`, `pathname=${pathname}`]), encodePacketContent(content)]);
+    }
+
+    it('should negotiate and then clean and smudge several files', async () => {
+      const plain = fs.readFileSync(path.join(testFilesDir, 'test.md'));
+      const encrypted = fs.readFileSync(path.join(encryptedFilesDir, 'test.md'));
+      const second = fs.readFileSync(path.join(testFilesDir, 'second.md'));
+
+      const result = await runFilter(filterProcess, ['--key-file', keyFilePath], Buffer.concat([
+        handshake(),
+        request('clean', 'test.md', plain),
+        request('smudge', 'test.md', encrypted),
+        request('smudge', 'second.md', second)
+      ]));
+      expect(result.exitCode).toBe(0);
+
+      const response = Readable.from([result.output]);
+      expect(await readPacketList(response)).toEqual(['git-filter-server', 'version=2']);
+      expect(await readPacketList(response)).toEqual(['capability=clean', 'capability=smudge', 'capability=delay']);
+      for (const expected of [encrypted, plain, second]) {
+        expect(await readPacketList(response)).toEqual(['status=success']);
+        expect((await readPacketContent(response)).equals(expected)).toBe(true);
+        expect(await readPacketList(response)).toEqual([]);
+      }
+      expect(response.read()).toBeNull();
+    });
+
+    it('should smudge files spread over many packets, with the header split between them', async () => {
+      const large = Buffer.alloc(200 * 1024, 'large file contents\n');
+      const largeEncrypted = encryptBlob(keyFile, large);
+      const plain = Buffer.alloc(100 * 1024, 'not encrypted\n');
+
+      const result = await runFilter(filterProcess, ['--key-file', keyFilePath], Buffer.concat([
+        handshake(),
+        encodePacketList(['command=smudge', 'pathname=large.bin']),
+        encodePacketContent(largeEncrypted.subarray(0, 5)).subarray(0, -4),
+        encodePacketContent(largeEncrypted.subarray(5)),
+        encodePacketList(['command=smudge', 'pathname=plain.txt']),
+        encodePacketContent(plain.subarray(0, 5)).subarray(0, -4),
+        encodePacketContent(plain.subarray(5))
+      ]));
+      expect(result.exitCode).toBe(0);
+
+      const response = Readable.from([result.output]);
+      await readPacketList(response);
+      await readPacketList(response);
+      for (const expected of [large, plain]) {
+        expect(await readPacketList(response)).toEqual(['status=success']);
+        expect((await readPacketContent(response)).equals(expected)).toBe(true);
+        expect(await readPacketList(response)).toEqual([]);
+      }
+    });
+
+    it('should report an error for tampered files and carry on', async () => {
+      const encrypted = Buffer.from(fs.readFileSync(path.join(encryptedFilesDir, 'test.md')));
+      encrypted[encrypted.length - 1] ^= 0xff;
+      const plain = Buffer.from('still works');
+
+      const result = await runFilter(filterProcess, ['--key-file', keyFilePath], Buffer.concat([
+        handshake(),
+        request('smudge', 'test.md', encrypted),
+        request('clean', 'other.txt', plain)
+      ]));
+      expect(result.exitCode).toBe(0);
+
+      const response = Readable.from([result.output]);
+      await readPacketList(response);
+      await readPacketList(response);
+      expect(await readPacketList(response)).toEqual(['status=error']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect((await readPacketContent(response)).subarray(0, 10).toString('binary')).toBe('\0GITCRYPT\0');
+    });
+
+    it('should delay smudging large files and hand them back when git asks', async () => {
+      const large = Buffer.alloc(128 * 1024, 'large file contents\n');
+      const small = Buffer.from('small file\n');
+      const largeEncrypted = encryptBlob(keyFile, large);
+
+      const result = await runFilter(filterProcess, ['--key-file', keyFilePath], Buffer.concat([
+        handshake(),
+        encodePacketList(['command=smudge', 'pathname=large.bin', 'can-delay=1']),
+        encodePacketContent(largeEncrypted),
+        encodePacketList(['command=smudge', 'pathname=small.txt', 'can-delay=1']),
+        encodePacketContent(encryptBlob(keyFile, small)),
+        encodePacketList(['command=list_available_blobs']),
+        request('smudge', 'large.bin', Buffer.alloc(0)),
+        encodePacketList(['command=list_available_blobs'])
+      ]));
+      expect(result.exitCode).toBe(0);
+
+      const response = Readable.from([result.output]);
+      await readPacketList(response);
+      expect(await readPacketList(response)).toEqual(['capability=clean', 'capability=smudge', 'capability=delay']);
+
+      // Only the large file is worth decrypting in the background
+      expect(await readPacketList(response)).toEqual(['status=delayed']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect((await readPacketContent(response)).equals(small)).toBe(true);
+      expect(await readPacketList(response)).toEqual([]);
+
+      expect(await readPacketList(response)).toEqual(['pathname=large.bin']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect((await readPacketContent(response)).equals(large)).toBe(true);
+      expect(await readPacketList(response)).toEqual([]);
+
+      // Nothing is left once every delayed file has been handed back
+      expect(await readPacketList(response)).toEqual([]);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect(response.read()).toBeNull();
+    });
+
+    it('should smudge files straight away while the delayed ones are at the limit', async () => {
+      const first = Buffer.alloc(20 * 1024 * 1024, 'first large file\n');
+      const second = Buffer.alloc(20 * 1024 * 1024, 'second large file\n');
+      const secondEncrypted = encryptBlob(keyFile, second);
+
+      const result = await runFilter(filterProcess, ['--key-file', keyFilePath], Buffer.concat([
+        handshake(),
+        encodePacketList(['command=smudge', 'pathname=first.bin', 'can-delay=1']),
+        encodePacketContent(encryptBlob(keyFile, first)),
+        encodePacketList(['command=smudge', 'pathname=second.bin', 'can-delay=1']),
+        encodePacketContent(secondEncrypted),
+        encodePacketList(['command=list_available_blobs']),
+        request('smudge', 'first.bin', Buffer.alloc(0)),
+        // Handing back the first file makes room to delay another
+        encodePacketList(['command=smudge', 'pathname=third.bin', 'can-delay=1']),
+        encodePacketContent(secondEncrypted),
+        encodePacketList(['command=list_available_blobs']),
+        request('smudge', 'third.bin', Buffer.alloc(0))
+      ]));
+      expect(result.exitCode).toBe(0);
+
+      const response = Readable.from([result.output]);
+      await readPacketList(response);
+      await readPacketList(response);
+
+      expect(await readPacketList(response)).toEqual(['status=delayed']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect((await readPacketContent(response)).equals(second)).toBe(true);
+      expect(await readPacketList(response)).toEqual([]);
+
+      expect(await readPacketList(response)).toEqual(['pathname=first.bin']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect((await readPacketContent(response)).equals(first)).toBe(true);
+      expect(await readPacketList(response)).toEqual([]);
+
+      expect(await readPacketList(response)).toEqual(['status=delayed']);
+      expect(await readPacketList(response)).toEqual(['pathname=third.bin']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect(await readPacketList(response)).toEqual(['status=success']);
+      expect((await readPacketContent(response)).equals(second)).toBe(true);
+      expect(await readPacketList(response)).toEqual([]);
+      expect(response.read()).toBeNull();
+    });
+
+    it('should reject an unknown protocol', async () => {
+      const result = await runFilter(filterProcess, ['--key-file', keyFilePath], encodePacketList(['git-filter-client', 'version=3']));
+      expect(result.exitCode).toBe(1);
+      expect(result.output.length).toBe(0);
+    });
+  });
+
   describe('Key File Compatibility', () => {
     it('should load git-crypt key file successfully', () => {
       expect(keyFile.isFilled()).toBe(true);
@@ -164,6 +460,61 @@ describe('Git-Crypt Integration Tests', () => {
     });
   });
 
+  describe('Migrate Key', () => {
+    // Legacy key files are the raw AES key followed by the HMAC key
+    const legacyKey = Buffer.alloc(32 + 64);
+    for (let i = 0; i < legacyKey.length; i++) {
+      legacyKey[i] = i;
+    }
+
+    async function expectMigrated(data: Buffer): Promise<void> {
+      expect(data.subarray(0, 12).equals(Buffer.from('\0GITCRYPTKEY', 'binary'))).toBe(true);
+
+      const migrated = new KeyFile();
+      await migrated.loadFromBuffer(data);
+      const entry = migrated.get(0);
+      expect(entry).not.toBe(null);
+      expect(Buffer.from(entry!.aesKey)).toEqual(legacyKey.subarray(0, 32));
+      expect(Buffer.from(entry!.hmacKey)).toEqual(legacyKey.subarray(32));
+    }
+
+    it('should migrate a legacy key file to a new file', async () => {
+      const oldPath = path.join(tempDir, 'old.key');
+      const newPath = path.join(tempDir, 'new.key');
+      fs.writeFileSync(oldPath, legacyKey);
+
+      expect(await migrateKey([oldPath, newPath])).toBe(0);
+      await expectMigrated(fs.readFileSync(newPath));
+      expect(fs.readFileSync(oldPath)).toEqual(legacyKey);
+    });
+
+    it('should migrate from standard input to standard output', async () => {
+      const result = await runFilter(migrateKey, ['-', '-'], legacyKey);
+      expect(result.exitCode).toBe(0);
+      await expectMigrated(result.output);
+    });
+
+    it('should migrate a legacy key file in place', async () => {
+      const keyPath = path.join(tempDir, 'legacy.key');
+      fs.writeFileSync(keyPath, legacyKey);
+
+      expect(await migrateKey(['--in-place', keyPath])).toBe(0);
+      await expectMigrated(fs.readFileSync(keyPath));
+      expect(fs.readdirSync(tempDir)).toEqual(['legacy.key']);
+    });
+
+    it('should reject files that are not legacy keys', async () => {
+      const newPath = path.join(tempDir, 'new.key');
+      await expect(migrateKey([keyFilePath, newPath])).rejects.toThrow('not a valid legacy git-crypt key file');
+      expect(fs.existsSync(newPath)).toBe(false);
+    });
+
+    it('should require two arguments', async () => {
+      expect(await migrateKey([path.join(tempDir, 'old.key')])).toBe(2);
+      expect(await migrateKey(['--in-place', '-'])).toBe(2);
+    });
+  });
+
   describe('File Format Validation', () => {
     it('should detect encrypted vs plain files', async () => {
       const plainFile = path.join(testFilesDir, 'test.md');
@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { gpgListSecretKeys, gpgDecryptFromFile } from '../../src/gpg';
+import { init, unlock, addGpgUser, rmGpgUser, lsGpgUsers } from '../../src/commands';
+import { KeyFile } from '../../src/key';
+import { tryDecryptBlob } from '../../src/blob';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    encoding: 'utf8'
+  });
+}
+
+describe('GPG Integration', () => {
+  const originalCwd = process.cwd();
+  const originalGnupgHome = process.env.GNUPGHOME;
+  let gnupgHome: string;
+  let fingerprint: string;
+  let otherFingerprint: string;
+  let tempDir: string;
+
+  beforeAll(() => {
+    // Throwaway keyring with a single passphrase-less key
+    gnupgHome = fs.mkdtempSync(path.join(os.tmpdir(), 'gnupg-'));
+    process.env.GNUPGHOME = gnupgHome;
+    execFileSync('gpg', ['--batch', '--passphrase', '', '--quick-gen-key', 'Test User <test@example.com>', 'future-default', 'default', 'never'], { stdio: 'ignore' });
+    execFileSync('gpg', ['--batch', '--passphrase', '', '--quick-gen-key', 'Other User <other@example.com>', 'future-default', 'default', 'never'], { stdio: 'ignore' });
+
+    const primaryFingerprint = (userId: string) => execFileSync('gpg', ['--batch', '--with-colons', '--fingerprint', '--list-keys', userId], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore']
+    }).split('\n').find(line => line.startsWith('fpr:'))!.split(':')[9];
+    fingerprint = primaryFingerprint('test@example.com');
+    otherFingerprint = primaryFingerprint('other@example.com');
+  });
+
+  afterAll(() => {
+    execFileSync('gpgconf', ['--kill', 'gpg-agent'], { stdio: 'ignore' });
+    if (originalGnupgHome === undefined) {
+      delete process.env.GNUPGHOME;
+    } else {
+      process.env.GNUPGHOME = originalGnupgHome;
+    }
+    fs.rmSync(gnupgHome, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-gpg-'));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function gpgEncrypt(data: Buffer, outputPath: string): void {
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    execFileSync('gpg', ['--batch', '--trust-model', 'always', '-o', outputPath, '-r', `0x${fingerprint}`, '-e'], { input: data });
+  }
+
+  it('should list local secret keys', async () => {
+    expect(await gpgListSecretKeys()).toContain(fingerprint);
+  });
+
+  it('should decrypt GPG-encrypted files', async () => {
+    const encryptedPath = path.join(tempDir, 'secret.gpg');
+    gpgEncrypt(Buffer.from([0, 1, 2, 255]), encryptedPath);
+
+    expect(await gpgDecryptFromFile(encryptedPath)).toEqual(Buffer.from([0, 1, 2, 255]));
+  });
+
+  it('should unlock a repository using the in-repo GPG-encrypted key', async () => {
+    const keyFile = new KeyFile();
+    keyFile.generate();
+    const version = keyFile.getLatestVersion();
+    expect(version).toBe(0);
+
+    git(tempDir, 'init', '-q');
+    gpgEncrypt(
+      Buffer.from(await keyFile.storeToString(), 'binary'),
+      path.join(tempDir, '.git-crypt', 'keys', 'default', '0', `${fingerprint}.gpg`)
+    );
+    git(tempDir, 'add', '.git-crypt');
+    git(tempDir, 'commit', '-q', '-m', 'Add key');
+
+    process.chdir(tempDir);
+    expect(await unlock([])).toBe(0);
+
+    const installed = new KeyFile();
+    expect(await installed.loadFromFile(path.join(tempDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+    expect(installed.get(version)!.aesKey).toEqual(keyFile.get(version)!.aesKey);
+  });
+
+  it('should add a GPG user that can then unlock a clone', async () => {
+    const repoDir = path.join(tempDir, 'repo');
+    const cloneDir = path.join(tempDir, 'clone');
+    fs.mkdirSync(repoDir);
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'config', 'user.name', 'Test');
+    git(repoDir, 'config', 'user.email', 'test@example.com');
+    git(repoDir, 'commit', '-q', '--allow-empty', '-m', 'Initial commit');
+
+    process.chdir(repoDir);
+    expect(await init([])).toBe(0);
+    expect(await addGpgUser([`0x${fingerprint}`])).toBe(0);
+
+    const repoKey = new KeyFile();
+    expect(await repoKey.loadFromFile(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+    const version = repoKey.getLatestVersion();
+    expect(version).toBe(0);
+
+    // The same layout as upstream git-crypt, which only reads version 0
+    expect(git(repoDir, 'ls-files').split('\n')).toEqual(expect.arrayContaining([
+      '.git-crypt/.gitattributes',
+      `.git-crypt/keys/default/0/${fingerprint}.gpg`
+    ]));
+    expect(git(repoDir, 'log', '-1', '--format=%B')).toContain('Add 1 git-crypt collaborator');
+
+    git(tempDir, 'clone', '-q', repoDir, cloneDir);
+    process.chdir(cloneDir);
+    expect(await unlock([])).toBe(0);
+
+    const cloneKey = new KeyFile();
+    expect(await cloneKey.loadFromFile(path.join(cloneDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+    expect(cloneKey.get(version)!.hmacKey).toEqual(repoKey.get(version)!.hmacKey);
+  });
+
+  it('should not commit with --no-commit', async () => {
+    git(tempDir, 'init', '-q');
+    git(tempDir, 'commit', '-q', '--allow-empty', '-m', 'Initial commit');
+
+    process.chdir(tempDir);
+    expect(await init([])).toBe(0);
+    expect(await addGpgUser(['--no-commit', 'test@example.com'])).toBe(0);
+
+    expect(git(tempDir, 'rev-list', '--count', 'HEAD').trim()).toBe('1');
+    expect(git(tempDir, 'diff', '--cached', '--name-only')).toContain('.git-crypt/.gitattributes');
+  });
+
+  function initRepoWithCollaborators(repoDir: string): Promise<number> {
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'config', 'user.name', 'Test');
+    git(repoDir, 'config', 'user.email', 'test@example.com');
+    git(repoDir, 'commit', '-q', '--allow-empty', '-m', 'Initial commit');
+
+    process.chdir(repoDir);
+    return init([]).then(() => addGpgUser([`0x${fingerprint}`, `0x${otherFingerprint}`]));
+  }
+
+  it('should remove a GPG user', async () => {
+    expect(await initRepoWithCollaborators(tempDir)).toBe(0);
+    const version = new KeyFile();
+    expect(await version.loadFromFile(path.join(tempDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+    const keyDir = `.git-crypt/keys/default/${version.getLatestVersion()}`;
+
+    expect(await rmGpgUser(['other@example.com'])).toBe(0);
+
+    const files = git(tempDir, 'ls-files').split('\n');
+    expect(files).toContain(`${keyDir}/${fingerprint}.gpg`);
+    expect(files).not.toContain(`${keyDir}/${otherFingerprint}.gpg`);
+    expect(git(tempDir, 'log', '-1', '--format=%B')).toContain(`Remove 1 git-crypt collaborator\n\nRemoved collaborators:\n\n    ${otherFingerprint}`);
+    expect(git(tempDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('should refuse to remove a user who is not a collaborator', async () => {
+    git(tempDir, 'init', '-q');
+    git(tempDir, 'commit', '-q', '--allow-empty', '-m', 'Initial commit');
+
+    process.chdir(tempDir);
+    expect(await init([])).toBe(0);
+    await expect(rmGpgUser(['test@example.com'])).rejects.toThrow("'test@example.com' is not a collaborator");
+  });
+
+  it('should rotate the key and re-encrypt files when removing a GPG user', async () => {
+    expect(await initRepoWithCollaborators(tempDir)).toBe(0);
+
+    // The configured filter points at the installed CLI; run the clean filter from source instead
+    const filterScript = path.join(tempDir, '.git', 'clean-filter.ts');
+    fs.writeFileSync(filterScript, `import { clean } from ${JSON.stringify(path.resolve(__dirname, '../../src/commands'))};\n` +
+      'clean([]).then(code => process.exit(code));\n');
+    const viteNode = path.resolve(__dirname, '../../node_modules/.bin/vite-node');
+    git(tempDir, 'config', 'filter.git-crypt.clean', `'${viteNode}' '${filterScript}'`);
+    // git would run the long-running filter process instead of the clean filter
+    git(tempDir, 'config', '--unset', 'filter.git-crypt.process');
+
+    fs.writeFileSync(path.join(tempDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\n');
+    fs.writeFileSync(path.join(tempDir, 'secret.txt'), 'top secret\n');
+    git(tempDir, 'add', '.gitattributes', 'secret.txt');
+    git(tempDir, 'commit', '-q', '-m', 'Add secret');
+
+    const oldKey = new KeyFile();
+    expect(await oldKey.loadFromFile(path.join(tempDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+    const oldVersion = oldKey.getLatestVersion();
+
+    expect(await rmGpgUser(['--rotate', `0x${otherFingerprint}`])).toBe(0);
+
+    const newKey = new KeyFile();
+    expect(await newKey.loadFromFile(path.join(tempDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+    expect(newKey.getVersions()).toEqual([oldVersion + 1, oldVersion]);
+    expect(newKey.get(oldVersion)!.aesKey).toEqual(oldKey.get(oldVersion)!.aesKey);
+
+    const files = git(tempDir, 'ls-files').split('\n');
+    expect(files).toContain(`.git-crypt/keys/default/${oldVersion + 1}/${fingerprint}.gpg`);
+    expect(files).not.toContain(`.git-crypt/keys/default/${oldVersion + 1}/${otherFingerprint}.gpg`);
+    expect(files).not.toContain(`.git-crypt/keys/default/${oldVersion}/${otherFingerprint}.gpg`);
+
+    const committed = execFileSync('git', ['cat-file', 'blob', 'HEAD:secret.txt'], { cwd: tempDir });
+    const result = tryDecryptBlob(newKey, committed);
+    expect(result.verified).toBe(true);
+    expect(result.version).toBe(oldVersion + 1);
+    expect(result.plaintext.toString()).toBe('top secret\n');
+    expect(tryDecryptBlob(oldKey, committed).verified).toBe(false);
+
+    expect(git(tempDir, 'log', '-1', '--format=%B')).toContain(`Rotated to key version ${oldVersion + 1}`);
+    expect(git(tempDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('should list GPG users for each key version', async () => {
+    expect(await initRepoWithCollaborators(tempDir)).toBe(0);
+    expect(await init(['-k', 'ops'])).toBe(0);
+    expect(await addGpgUser(['-k', 'ops', `0x${fingerprint}`])).toBe(0);
+
+    // A collaborator the local keyring does not know about
+    const unknownFingerprint = 'A'.repeat(40);
+    const version = fs.readdirSync(path.join(tempDir, '.git-crypt', 'keys', 'default'))[0];
+    fs.writeFileSync(path.join(tempDir, '.git-crypt', 'keys', 'default', version, `${unknownFingerprint}.gpg`), '');
+
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      expect(await lsGpgUsers(['--json'])).toBe(0);
+      expect(JSON.parse(log.mock.calls[0][0])).toEqual([
+        {
+          keyName: 'default',
+          versions: [{
+            version: Number(version),
+            users: expect.arrayContaining([
+              { fingerprint, uid: 'Test User <test@example.com>' },
+              { fingerprint: otherFingerprint, uid: 'Other User <other@example.com>' },
+              { fingerprint: unknownFingerprint, uid: null }
+            ])
+          }]
+        },
+        {
+          keyName: 'ops',
+          versions: [{ version: Number(version), users: [{ fingerprint, uid: 'Test User <test@example.com>' }] }]
+        }
+      ]);
+
+      log.mockClear();
+      expect(await lsGpgUsers([])).toBe(0);
+      const lines = log.mock.calls.map(call => call[0]);
+      expect(lines[0]).toBe("Key 'default':");
+      expect(lines[1]).toBe(`  Version ${version}:`);
+      expect(lines).toContain(`    0x${fingerprint}  Test User <test@example.com>`);
+      expect(lines).toContain(`    0x${unknownFingerprint}`);
+      expect(lines).toContain("Key 'ops':");
+    } finally {
+      log.mockRestore();
+    }
+  });
+
+  it("should use the target repository's gpg.program when given a cwd", async () => {
+    const repoDir = path.join(tempDir, 'repo');
+    const cloneDir = path.join(tempDir, 'clone');
+    const otherDir = path.join(tempDir, 'other');
+    fs.mkdirSync(repoDir);
+    fs.mkdirSync(otherDir);
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'commit', '-q', '--allow-empty', '-m', 'Initial commit');
+
+    // A gpg wrapper that records each invocation, configured only in the target repository
+    const logPath = path.join(tempDir, 'gpg.log');
+    const wrapperPath = path.join(tempDir, 'gpg-wrapper');
+    fs.writeFileSync(wrapperPath, `#!/bin/sh\necho "$1" >> '${logPath}'\nexec gpg "$@"\n`, { mode: 0o755 });
+    git(repoDir, 'config', 'gpg.program', wrapperPath);
+    process.chdir(otherDir);
+
+    expect(await init([], { cwd: repoDir })).toBe(0);
+    expect(await addGpgUser(['--no-commit', `0x${fingerprint}`], { cwd: repoDir })).toBe(0);
+    const added = fs.readFileSync(logPath, 'utf8').split('\n').length;
+    expect(added).toBeGreaterThan(1);
+
+    git(repoDir, 'commit', '-q', '-m', 'Add collaborator');
+    git(tempDir, 'clone', '-q', repoDir, cloneDir);
+    git(cloneDir, 'config', 'gpg.program', wrapperPath);
+    expect(await unlock([], process.stdin, { cwd: cloneDir })).toBe(0);
+    expect(fs.readFileSync(logPath, 'utf8').split('\n').length).toBeGreaterThan(added);
+  });
+});
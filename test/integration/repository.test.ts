@@ -0,0 +1,680 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { init, unlock, exportKey, status, audit, doctor, rotateKey } from '../../src/commands';
+import { encryptBlob, tryDecryptBlob } from '../../src/blob';
+import { KeyFile } from '../../src/key';
+import { Coprocess } from '../../src/coprocess';
+import { initRepository, lockRepository, getRepositoryStatus } from '../../src/index';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    encoding: 'utf8'
+  });
+}
+
+describe('Repository Commands', () => {
+  const originalCwd = process.cwd();
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-repo-'));
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'config', 'user.name', 'Test');
+    git(repoDir, 'config', 'user.email', 'test@example.com');
+    git(repoDir, 'commit', '-q', '--allow-empty', '-m', 'Initial commit');
+    process.chdir(repoDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  async function loadInternalKey(keyName = 'default'): Promise<KeyFile> {
+    const keyFile = new KeyFile();
+    expect(await keyFile.loadFromFile(path.join(repoDir, '.git', 'git-crypt', 'keys', keyName))).toBe(true);
+    return keyFile;
+  }
+
+  // The configured filter points at the installed CLI; run the clean filter from source instead
+  function useCleanFilterFromSource(keyName?: string): void {
+    const attribute = keyName ? `git-crypt-${keyName}` : 'git-crypt';
+    const filterScript = path.join(repoDir, '.git', `${attribute}-clean-filter.ts`);
+    fs.writeFileSync(filterScript, `import { clean } from ${JSON.stringify(path.resolve(__dirname, '../../src/commands'))};\n` +
+      `clean(${JSON.stringify(keyName ? [`--key-name=${keyName}`] : [])}).then(code => process.exit(code));\n`);
+    const viteNode = path.resolve(__dirname, '../../node_modules/.bin/vite-node');
+    git(repoDir, 'config', `filter.${attribute}.clean`, `'${viteNode}' '${filterScript}'`);
+    // git would run the long-running filter process instead of the clean filter
+    git(repoDir, 'config', '--unset', `filter.${attribute}.process`);
+  }
+
+  // Stage an encrypted version of a file without needing a working clean filter
+  function addEncrypted(filename: string, contents: string): void {
+    const keyFile = new KeyFile();
+    keyFile.generate();
+    const encryptedPath = path.join(repoDir, '.git', 'encrypted');
+    fs.writeFileSync(encryptedPath, encryptBlob(keyFile, Buffer.from(contents)));
+    fs.writeFileSync(path.join(repoDir, filename), contents);
+    git(repoDir, '-c', `filter.git-crypt.clean=cat '${encryptedPath}'`, 'add', filename);
+  }
+
+  async function captureOutput(fn: () => Promise<number>): Promise<{ exitCode: number; lines: string[] }> {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      const exitCode = await fn();
+      return { exitCode, lines: log.mock.calls.map(call => String(call[0])) };
+    } finally {
+      log.mockRestore();
+    }
+  }
+
+  describe('export-key', () => {
+    it('should export the default key', async () => {
+      expect(await init([])).toBe(0);
+      const exportPath = path.join(repoDir, 'exported.key');
+
+      expect(await exportKey([exportPath])).toBe(0);
+      expect(fs.readFileSync(exportPath)).toEqual(fs.readFileSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default')));
+    });
+
+    it('should export a named key', async () => {
+      expect(await init([])).toBe(0);
+      expect(await init(['-k', 'ops'])).toBe(0);
+      const shortPath = path.join(repoDir, 'short.key');
+      const longPath = path.join(repoDir, 'long.key');
+
+      expect(await exportKey(['-k', 'ops', shortPath])).toBe(0);
+      expect(await exportKey(['--key-name=ops', longPath])).toBe(0);
+
+      const exported = new KeyFile();
+      expect(await exported.loadFromFile(shortPath)).toBe(true);
+      expect(exported.getKeyName()).toBe('ops');
+      expect((await loadInternalKey('ops')).getLatest()!.aesKey).toEqual(exported.getLatest()!.aesKey);
+      expect((await loadInternalKey()).getLatest()!.aesKey).not.toEqual(exported.getLatest()!.aesKey);
+      expect(fs.readFileSync(longPath)).toEqual(fs.readFileSync(shortPath));
+    });
+
+    it('should export to standard output', async () => {
+      expect(await init([])).toBe(0);
+      const output = new PassThrough();
+      const chunks: Buffer[] = [];
+      output.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+      expect(await exportKey(['-'], output)).toBe(0);
+      expect(Buffer.concat(chunks)).toEqual(fs.readFileSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default')));
+    });
+
+    it('should only overwrite an existing file with --force', async () => {
+      expect(await init([])).toBe(0);
+      const exportPath = path.join(repoDir, 'exported.key');
+      fs.writeFileSync(exportPath, 'precious');
+
+      await expect(exportKey([exportPath])).rejects.toThrow('already exists');
+      expect(fs.readFileSync(exportPath, 'utf8')).toBe('precious');
+
+      expect(await exportKey(['--force', exportPath])).toBe(0);
+      expect(fs.readFileSync(exportPath)).toEqual(fs.readFileSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default')));
+    });
+
+    it('should not write through a symlink planted at the target', async () => {
+      expect(await init([])).toBe(0);
+      const exportPath = path.join(repoDir, 'exported.key');
+      const linkTarget = path.join(repoDir, 'elsewhere.key');
+      fs.symlinkSync(linkTarget, exportPath);
+
+      await expect(exportKey([exportPath])).rejects.toThrow('already exists');
+      expect(fs.existsSync(linkTarget)).toBe(false);
+    });
+
+    it('should require a filename', async () => {
+      expect(await exportKey([])).toBe(2);
+    });
+  });
+
+  describe('repository discovery', () => {
+    it('should store keys in the git directory when run from a subdirectory', async () => {
+      const subdir = path.join(repoDir, 'sub', 'dir');
+      fs.mkdirSync(subdir, { recursive: true });
+      process.chdir(subdir);
+
+      expect(await init([])).toBe(0);
+      expect(fs.existsSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+      expect(fs.existsSync(path.join(subdir, '.git'))).toBe(false);
+    });
+
+    it('should share the key between linked worktrees', async () => {
+      expect(await init([])).toBe(0);
+      const worktreeDir = `${repoDir}-worktree`;
+      git(repoDir, 'worktree', 'add', '-q', worktreeDir);
+      try {
+        process.chdir(worktreeDir);
+        const exportPath = path.join(repoDir, 'exported.key');
+
+        expect(await exportKey([exportPath])).toBe(0);
+        expect(fs.readFileSync(exportPath)).toEqual(fs.readFileSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default')));
+        await expect(init([])).rejects.toThrow('already been initialized');
+      } finally {
+        process.chdir(repoDir);
+        fs.rmSync(worktreeDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should fail outside a git repository', async () => {
+      const outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-outside-'));
+      try {
+        process.chdir(outsideDir);
+        await expect(exportKey([path.join(outsideDir, 'exported.key')])).rejects.toThrow('is this a Git repository?');
+      } finally {
+        process.chdir(repoDir);
+        fs.rmSync(outsideDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('unlock', () => {
+    async function generateKey(): Promise<{ keyFile: KeyFile; data: Buffer }> {
+      const keyFile = new KeyFile();
+      keyFile.generate();
+      return { keyFile, data: Buffer.from(await keyFile.storeToString(), 'binary') };
+    }
+
+    it('should unlock with a key file read from standard input', async () => {
+      const { keyFile, data } = await generateKey();
+      // Deliver the key in small pieces, as a pipe might
+      const chunks = [data.subarray(0, 5), data.subarray(5, 40), data.subarray(40)];
+
+      expect(await unlock(['-'], Readable.from(chunks))).toBe(0);
+      expect((await loadInternalKey()).getLatest()!.hmacKey).toEqual(keyFile.getLatest()!.hmacKey);
+      expect(git(repoDir, 'config', 'filter.git-crypt.required').trim()).toBe('true');
+    });
+
+    it('should unlock with a base64-encoded key read from standard input', async () => {
+      const { keyFile, data } = await generateKey();
+      const wrapped = data.toString('base64').replace(/.{1,64}/g, '$&\n');
+
+      expect(await unlock(['-'], Readable.from([Buffer.from(wrapped)]))).toBe(0);
+      expect((await loadInternalKey()).getLatest()!.aesKey).toEqual(keyFile.getLatest()!.aesKey);
+    });
+
+    it('should reject invalid key data on standard input', async () => {
+      await expect(unlock(['-'], Readable.from([Buffer.from('not a key\n')]))).rejects.toThrow('-: not a valid git-crypt key file');
+      expect(fs.existsSync(path.join(repoDir, '.git', 'git-crypt'))).toBe(false);
+    });
+  });
+
+  describe('status', () => {
+    beforeEach(() => {
+      // Committed before .gitattributes, so the blob of secret.txt is not encrypted
+      fs.writeFileSync(path.join(repoDir, 'plain.txt'), 'plain\n');
+      fs.writeFileSync(path.join(repoDir, 'secret.txt'), 'secret\n');
+      git(repoDir, 'add', 'plain.txt', 'secret.txt');
+      git(repoDir, 'commit', '-q', '-m', 'Add files');
+
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\nnodiff.txt filter=git-crypt\n');
+      fs.writeFileSync(path.join(repoDir, 'nodiff.txt'), 'untracked\n');
+    });
+
+    it('should show every file and warn about unencrypted blobs', async () => {
+      const result = await captureOutput(() => status([]));
+
+      expect(result.exitCode).toBe(1);
+      expect(result.lines).toEqual(expect.arrayContaining([
+        'not encrypted: .gitattributes',
+        'not encrypted: plain.txt',
+        '    encrypted: secret.txt *** WARNING: staged/committed version is NOT ENCRYPTED! ***',
+        '    encrypted: nodiff.txt *** WARNING: diff=git-crypt attribute not set ***',
+        'Run \'git-crypt status\' with the \'-f\' option to stage an encrypted version.'
+      ]));
+    });
+
+    it('should check blobs of any size with a single git cat-file process', async () => {
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), '*.bin filter=git-crypt diff=git-crypt\n');
+      fs.writeFileSync(path.join(repoDir, 'empty.bin'), '');
+      fs.writeFileSync(path.join(repoDir, 'short.bin'), 'abc');
+      fs.writeFileSync(path.join(repoDir, 'large.bin'), Buffer.alloc(200 * 1024, 'x'));
+      git(repoDir, 'add', 'empty.bin', 'short.bin', 'large.bin');
+      addEncrypted('encrypted.bin', 'secret\n');
+
+      const spawn = vi.spyOn(Coprocess.prototype, 'spawn');
+      try {
+        const result = await captureOutput(() => status(['-e']));
+        expect(result.lines).toEqual(expect.arrayContaining([
+          '    encrypted: empty.bin *** WARNING: staged/committed version is NOT ENCRYPTED! ***',
+          '    encrypted: short.bin *** WARNING: staged/committed version is NOT ENCRYPTED! ***',
+          '    encrypted: large.bin *** WARNING: staged/committed version is NOT ENCRYPTED! ***',
+          '    encrypted: encrypted.bin'
+        ]));
+        expect(spawn.mock.calls.filter(([args]) => args[1] === 'cat-file')).toHaveLength(1);
+      } finally {
+        spawn.mockRestore();
+      }
+    });
+
+    it('should filter by encryption with -e and -u', async () => {
+      const encrypted = await captureOutput(() => status(['-e']));
+      const fileLines = encrypted.lines.filter(line => line.includes('crypted: '));
+      expect(fileLines).toHaveLength(2);
+      expect(fileLines).toEqual(expect.arrayContaining([
+        '    encrypted: nodiff.txt *** WARNING: diff=git-crypt attribute not set ***',
+        '    encrypted: secret.txt *** WARNING: staged/committed version is NOT ENCRYPTED! ***'
+      ]));
+
+      const unencrypted = await captureOutput(() => status(['-u', 'plain.txt', 'secret.txt']));
+      expect(unencrypted.exitCode).toBe(0);
+      expect(unencrypted.lines).toEqual(['not encrypted: plain.txt']);
+    });
+
+    it('should reject conflicting options', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        expect(await status(['-e', '-u'])).toBe(2);
+        expect(await status(['-f', '-e'])).toBe(2);
+      } finally {
+        error.mockRestore();
+      }
+    });
+
+    it('should encrypt and commit unencrypted blobs with -f', async () => {
+      expect(await init([])).toBe(0);
+      useCleanFilterFromSource();
+      git(repoDir, 'add', '.gitattributes');
+      git(repoDir, 'commit', '-q', '-m', 'Add .gitattributes');
+
+      const result = await captureOutput(() => status(['-f']));
+      expect(result.exitCode).toBe(0);
+      expect(result.lines).toContain('secret.txt: staged encrypted version');
+      expect(result.lines).toContain('Staged 1 encrypted file.');
+
+      const committed = execFileSync('git', ['cat-file', 'blob', 'HEAD:secret.txt'], { cwd: repoDir });
+      expect(committed.subarray(0, 10).toString('binary')).toBe('\0GITCRYPT\0');
+      expect(git(repoDir, 'log', '-1', '--format=%s')).toContain('Encrypt 1 file');
+
+      const after = await captureOutput(() => status(['-e']));
+      expect(after.lines).toContain('    encrypted: secret.txt');
+    });
+  });
+
+  describe('doctor', () => {
+    it('should register filters that run the CLI entry script with the current Node binary', async () => {
+      expect(await init([])).toBe(0);
+      expect(await init(['-k', 'ops'])).toBe(0);
+
+      const command = `"${process.execPath}" "${path.resolve(__dirname, '../../src/cli.js')}"`;
+      expect(git(repoDir, 'config', 'filter.git-crypt.clean').trim()).toBe(`${command} clean`);
+      expect(git(repoDir, 'config', 'filter.git-crypt.process').trim()).toBe(`${command} filter-process`);
+      expect(git(repoDir, 'config', 'filter.git-crypt-ops.smudge').trim()).toBe(`${command} smudge "--key-name=ops"`);
+    });
+
+    it('should pass when the configured commands work', async () => {
+      expect(await init([])).toBe(0);
+      // There is no compiled entry script next to the sources, so run the CLI from source
+      const command = `'${path.resolve(__dirname, '../../node_modules/.bin/vite-node')}' '${path.resolve(__dirname, '../../src/cli.ts')}'`;
+      git(repoDir, 'config', 'filter.git-crypt.clean', `${command} clean`);
+      git(repoDir, 'config', 'filter.git-crypt.smudge', `${command} smudge`);
+      git(repoDir, 'config', 'filter.git-crypt.process', `${command} filter-process`);
+      git(repoDir, 'config', 'diff.git-crypt.textconv', `${command} diff`);
+
+      const result = await captureOutput(() => doctor([]));
+      expect(result.lines).toEqual([
+        'Key \'default\':',
+        '  filter.git-crypt.clean: OK',
+        '  filter.git-crypt.smudge: OK',
+        '  filter.git-crypt.process: OK',
+        '  diff.git-crypt.textconv: OK',
+        '  filter.git-crypt.required: OK',
+        '',
+        'All configured git-crypt commands work.'
+      ]);
+      expect(result.exitCode).toBe(0);
+    }, 60000);
+
+    it('should report commands that fail or are missing', async () => {
+      expect(await init([])).toBe(0);
+      git(repoDir, 'config', 'filter.git-crypt.clean', 'false');
+      git(repoDir, 'config', '--unset', 'diff.git-crypt.textconv');
+
+      const result = await captureOutput(() => doctor([]));
+      expect(result.exitCode).toBe(1);
+      expect(result.lines).toContain('  filter.git-crypt.clean: FAILED - exited with status 1');
+      expect(result.lines).toContain('  diff.git-crypt.textconv: FAILED - not configured');
+      expect(result.lines).toContain('  filter.git-crypt.required: OK');
+    });
+
+    it('should require an unlocked repository', async () => {
+      await expect(doctor([])).rejects.toThrow('not configured with git-crypt');
+    });
+  });
+
+  describe('rotate-key', () => {
+    function commitSecret(): void {
+      useCleanFilterFromSource();
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\n');
+      fs.writeFileSync(path.join(repoDir, 'secret.txt'), 'top secret\n');
+      git(repoDir, 'add', '.gitattributes', 'secret.txt');
+      git(repoDir, 'commit', '-q', '-m', 'Add secret');
+    }
+
+    it('should add a key version and commit files re-encrypted with it', async () => {
+      expect(await init([])).toBe(0);
+      commitSecret();
+      const oldKey = await loadInternalKey();
+      const oldVersion = oldKey.getLatestVersion();
+      expect(oldVersion).toBe(0);
+
+      const result = await captureOutput(() => rotateKey([]));
+      expect(result.exitCode).toBe(0);
+      expect(result.lines).toContain('Rotated the default key to version 1.');
+      expect(result.lines.some(line => line.startsWith('Warning: files re-encrypted with the new key version'))).toBe(true);
+
+      const newKey = await loadInternalKey();
+      expect(newKey.getVersions()).toEqual([oldVersion + 1, oldVersion]);
+      expect(newKey.get(oldVersion)!.aesKey).toEqual(oldKey.get(oldVersion)!.aesKey);
+
+      const committed = execFileSync('git', ['cat-file', 'blob', 'HEAD:secret.txt'], { cwd: repoDir });
+      const decrypted = tryDecryptBlob(newKey, committed);
+      expect(decrypted.verified).toBe(true);
+      expect(decrypted.version).toBe(oldVersion + 1);
+      expect(decrypted.plaintext.toString()).toBe('top secret\n');
+
+      // History still decrypts with the old version, which is kept
+      const previous = tryDecryptBlob(newKey, execFileSync('git', ['cat-file', 'blob', 'HEAD~1:secret.txt'], { cwd: repoDir }));
+      expect(previous.verified).toBe(true);
+      expect(previous.version).toBe(oldVersion);
+
+      expect(git(repoDir, 'log', '-1', '--format=%s')).toBe('Rotate git-crypt key to version 1\n');
+      expect(git(repoDir, 'status', '--porcelain')).toBe('');
+    }, 60000);
+
+    it('should only stage the re-encrypted files with --no-commit', async () => {
+      expect(await init([])).toBe(0);
+      expect(await init(['-k', 'ops'])).toBe(0);
+      commitSecret();
+      useCleanFilterFromSource('ops');
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt-ops diff=git-crypt-ops\n');
+      git(repoDir, 'add', '--renormalize', '.');
+      git(repoDir, 'commit', '-q', '-m', 'Use the ops key');
+
+      const result = await captureOutput(() => rotateKey(['-k', 'ops', '-n']));
+      expect(result.exitCode).toBe(0);
+      expect(result.lines).toContain("Rotated key 'ops' to version 1.");
+      expect((await loadInternalKey()).getVersions()).toEqual([0]);
+      expect((await loadInternalKey('ops')).getVersions()).toEqual([1, 0]);
+
+      expect(git(repoDir, 'status', '--porcelain')).toBe('M  secret.txt\n');
+      const staged = execFileSync('git', ['cat-file', 'blob', ':secret.txt'], { cwd: repoDir });
+      expect(tryDecryptBlob(await loadInternalKey('ops'), staged).version).toBe(1);
+    }, 60000);
+
+    it('should refuse to run with uncommitted changes or without the key', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      try {
+        await expect(rotateKey([])).rejects.toThrow('have you unlocked/initialized this repository yet?');
+
+        expect(await init([])).toBe(0);
+        fs.writeFileSync(path.join(repoDir, 'untracked-change.txt'), 'change');
+        git(repoDir, 'add', 'untracked-change.txt');
+        expect(await rotateKey([])).toBe(1);
+        expect(await rotateKey(['extra'])).toBe(2);
+      } finally {
+        error.mockRestore();
+      }
+      expect((await loadInternalKey()).getVersions()).toEqual([0]);
+    });
+  });
+
+  describe('clean', () => {
+    it('should spill inputs above the configured threshold to a temporary file', async () => {
+      expect(await init([])).toBe(0);
+      useCleanFilterFromSource();
+      git(repoDir, 'config', 'git-crypt.cleanSpillThreshold', '16k');
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), '*.secret filter=git-crypt diff=git-crypt\n');
+      const large = Buffer.alloc(100 * 1024, 'database dump\n');
+      fs.writeFileSync(path.join(repoDir, 'dump.secret'), large);
+
+      // Without a usable temporary directory the large file cannot be cleaned
+      const addWithTmpDir = (tmpDir: string) => execFileSync('git', ['add', 'dump.secret'], {
+        cwd: repoDir,
+        env: { ...process.env, TMPDIR: tmpDir },
+        stdio: 'pipe'
+      });
+      expect(() => addWithTmpDir(path.join(repoDir, 'missing'))).toThrow();
+
+      const spillDir = path.join(repoDir, '.git', 'spill');
+      fs.mkdirSync(spillDir);
+      addWithTmpDir(spillDir);
+      expect(fs.readdirSync(spillDir)).toEqual([]);
+
+      const staged = execFileSync('git', ['cat-file', 'blob', ':dump.secret'], { cwd: repoDir });
+      expect(staged.equals(encryptBlob(await loadInternalKey(), large))).toBe(true);
+    }, 60000);
+
+    it('should spill inputs above the threshold in the long-running filter process too', async () => {
+      expect(await init([])).toBe(0);
+      const command = `'${path.resolve(__dirname, '../../node_modules/.bin/vite-node')}' '${path.resolve(__dirname, '../../src/cli.ts')}'`;
+      git(repoDir, 'config', 'filter.git-crypt.process', `${command} filter-process`);
+      git(repoDir, 'config', 'git-crypt.cleanSpillThreshold', '16k');
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), '*.secret filter=git-crypt diff=git-crypt\n');
+      const large = Buffer.alloc(100 * 1024, 'database dump\n');
+      fs.writeFileSync(path.join(repoDir, 'dump.secret'), large);
+      fs.writeFileSync(path.join(repoDir, 'small.secret'), 'small\n');
+
+      // Without a usable temporary directory only the large file cannot be cleaned
+      const addWithTmpDir = (tmpDir: string, ...files: string[]) => execFileSync('git', ['add', ...files], {
+        cwd: repoDir,
+        env: { ...process.env, TMPDIR: tmpDir },
+        stdio: 'pipe'
+      });
+      expect(() => addWithTmpDir(path.join(repoDir, 'missing'), 'dump.secret')).toThrow();
+      addWithTmpDir(path.join(repoDir, 'missing'), 'small.secret');
+
+      const spillDir = path.join(repoDir, '.git', 'spill');
+      fs.mkdirSync(spillDir);
+      addWithTmpDir(spillDir, 'dump.secret', 'small.secret');
+      expect(fs.readdirSync(spillDir)).toEqual([]);
+
+      const key = await loadInternalKey();
+      const staged = execFileSync('git', ['cat-file', 'blob', ':dump.secret'], { cwd: repoDir });
+      expect(staged.equals(encryptBlob(key, large))).toBe(true);
+      const stagedSmall = execFileSync('git', ['cat-file', 'blob', ':small.secret'], { cwd: repoDir });
+      expect(stagedSmall.equals(encryptBlob(key, Buffer.from('small\n')))).toBe(true);
+    }, 60000);
+  });
+
+  describe('filter-process', () => {
+    it('should clean and smudge through git', async () => {
+      expect(await init([])).toBe(0);
+      const command = `'${path.resolve(__dirname, '../../node_modules/.bin/vite-node')}' '${path.resolve(__dirname, '../../src/cli.ts')}'`;
+      git(repoDir, 'config', 'filter.git-crypt.process', `${command} filter-process`);
+
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), '*.secret filter=git-crypt diff=git-crypt\n');
+      fs.writeFileSync(path.join(repoDir, 'a.secret'), 'first secret\n');
+      fs.writeFileSync(path.join(repoDir, 'b.secret'), 'second secret\n');
+      // Large enough to be smudged in the background
+      const large = Buffer.alloc(100 * 1024, 'large secret\n');
+      fs.writeFileSync(path.join(repoDir, 'c.secret'), large);
+      git(repoDir, 'add', '.');
+      git(repoDir, 'commit', '-q', '-m', 'Add secrets');
+
+      for (const name of ['a.secret', 'b.secret', 'c.secret']) {
+        const committed = execFileSync('git', ['cat-file', 'blob', `HEAD:${name}`], { cwd: repoDir });
+        expect(committed.subarray(0, 10).toString('binary')).toBe('\0GITCRYPT\0');
+      }
+
+      for (const name of ['a.secret', 'b.secret', 'c.secret']) {
+        fs.rmSync(path.join(repoDir, name));
+      }
+      git(repoDir, 'checkout', '--', '.');
+      expect(fs.readFileSync(path.join(repoDir, 'a.secret'), 'utf8')).toBe('first secret\n');
+      expect(fs.readFileSync(path.join(repoDir, 'b.secret'), 'utf8')).toBe('second secret\n');
+      expect(fs.readFileSync(path.join(repoDir, 'c.secret')).equals(large)).toBe(true);
+    }, 60000);
+  });
+
+  describe('audit', () => {
+    it('should report commits where files marked for encryption were stored unencrypted', async () => {
+      fs.writeFileSync(path.join(repoDir, 'secret.txt'), 'leaked\n');
+      git(repoDir, 'add', 'secret.txt');
+      git(repoDir, 'commit', '-q', '-m', 'Add secret before .gitattributes');
+
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\n');
+      git(repoDir, 'add', '.gitattributes');
+      git(repoDir, 'commit', '-q', '-m', 'Add .gitattributes');
+      const leakingCommit = git(repoDir, 'rev-parse', 'HEAD').trim();
+
+      addEncrypted('secret.txt', 'rotated\n');
+      git(repoDir, 'commit', '-q', '-m', 'Encrypt secret');
+
+      const result = await captureOutput(() => audit([]));
+      expect(result.exitCode).toBe(1);
+      expect(result.lines.filter(line => line.includes('NOT ENCRYPTED'))).toEqual([
+        `${leakingCommit}: secret.txt *** NOT ENCRYPTED ***`
+      ]);
+    });
+
+    it('should report each unencrypted version once, at the commit that introduced it', async () => {
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\n');
+      fs.writeFileSync(path.join(repoDir, 'secret.txt'), 'leaked\n');
+      git(repoDir, '-c', 'filter.git-crypt.clean=cat', 'add', '.gitattributes', 'secret.txt');
+      git(repoDir, 'commit', '-q', '-m', 'Add secret unencrypted');
+      const leakingCommit = git(repoDir, 'rev-parse', 'HEAD').trim();
+
+      for (const name of ['a.txt', 'b.txt']) {
+        fs.writeFileSync(path.join(repoDir, name), `${name}\n`);
+        git(repoDir, 'add', name);
+        git(repoDir, 'commit', '-q', '-m', `Add ${name}`);
+      }
+
+      const result = await captureOutput(() => audit([]));
+      expect(result.exitCode).toBe(1);
+      expect(result.lines.filter(line => line.includes('NOT ENCRYPTED'))).toEqual([
+        `${leakingCommit}: secret.txt *** NOT ENCRYPTED ***`
+      ]);
+      expect(result.lines).toContain('Warning: found 1 unencrypted version of files that are marked for encryption');
+    });
+
+    it('should pass when every version was encrypted', async () => {
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\n');
+      git(repoDir, 'add', '.gitattributes');
+      addEncrypted('secret.txt', 'secret\n');
+      git(repoDir, 'commit', '-q', '-m', 'Add secret');
+
+      const result = await captureOutput(() => audit([]));
+      expect(result.exitCode).toBe(0);
+      expect(result.lines).toEqual(['No unencrypted files found in 2 commits.']);
+    });
+  });
+
+  describe('repository API', () => {
+    it('should operate on several repositories concurrently without changing directory', async () => {
+      process.chdir(originalCwd);
+      const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-repo-'));
+      try {
+        git(otherDir, 'init', '-q');
+
+        await Promise.all([initRepository(repoDir), initRepository(otherDir, 'ops')]);
+        expect(process.cwd()).toBe(originalCwd);
+
+        expect(fs.existsSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+        expect(fs.existsSync(path.join(otherDir, '.git', 'git-crypt', 'keys', 'ops'))).toBe(true);
+        expect(fs.existsSync(path.join(otherDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(false);
+        expect(git(otherDir, 'config', 'filter.git-crypt-ops.required').trim()).toBe('true');
+
+        await lockRepository(otherDir, 'ops');
+        expect(process.cwd()).toBe(originalCwd);
+        expect(fs.existsSync(path.join(otherDir, '.git', 'git-crypt', 'keys', 'ops'))).toBe(false);
+        expect(fs.existsSync(path.join(repoDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+      } finally {
+        fs.rmSync(otherDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should run status, audit and unlock on several repositories concurrently', async () => {
+      const otherDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-repo-'));
+      const outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-outside-'));
+      try {
+        git(otherDir, 'init', '-q');
+        for (const dir of [repoDir, otherDir]) {
+          fs.writeFileSync(path.join(dir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\n');
+          git(dir, 'add', '.gitattributes');
+        }
+
+        // Only repoDir has a file that was committed unencrypted
+        fs.writeFileSync(path.join(repoDir, 'secret.txt'), 'leaked\n');
+        git(repoDir, '-c', 'filter.git-crypt.clean=cat', 'add', 'secret.txt');
+        git(repoDir, 'commit', '-q', '-m', 'Add secret');
+        git(otherDir, 'commit', '-q', '-m', 'Add .gitattributes');
+
+        // Nothing may fall back to the process working directory
+        process.chdir(outsideDir);
+
+        const statusResult = await captureOutput(async () => {
+          const exitCodes = await Promise.all([status([], { cwd: repoDir }), status([], { cwd: otherDir })]);
+          return exitCodes[0] * 10 + exitCodes[1];
+        });
+        expect(statusResult.exitCode).toBe(10);
+        expect(statusResult.lines.filter(line => line.includes('NOT ENCRYPTED'))).toEqual([
+          '    encrypted: secret.txt *** WARNING: staged/committed version is NOT ENCRYPTED! ***'
+        ]);
+
+        const auditResult = await captureOutput(async () => {
+          const exitCodes = await Promise.all([audit([], { cwd: repoDir }), audit([], { cwd: otherDir })]);
+          return exitCodes[0] * 10 + exitCodes[1];
+        });
+        expect(auditResult.exitCode).toBe(10);
+
+        const keys = [new KeyFile(), new KeyFile()];
+        keys.forEach(keyFile => keyFile.generate());
+        const keyData = await Promise.all(keys.map(async keyFile => Buffer.from(await keyFile.storeToString(), 'binary')));
+        fs.rmSync(path.join(repoDir, 'secret.txt'));
+        git(repoDir, 'rm', '-q', '--cached', 'secret.txt');
+        git(repoDir, 'commit', '-q', '-m', 'Remove secret');
+
+        const unlockResult = await captureOutput(async () => {
+          const exitCodes = await Promise.all([
+            unlock(['-'], Readable.from([keyData[0]]), { cwd: repoDir }),
+            unlock(['-'], Readable.from([keyData[1]]), { cwd: otherDir })
+          ]);
+          return exitCodes[0] * 10 + exitCodes[1];
+        });
+        expect(unlockResult.exitCode).toBe(0);
+        expect(process.cwd()).toBe(fs.realpathSync(outsideDir));
+        expect(fs.existsSync(path.join(outsideDir, '.git'))).toBe(false);
+
+        const installed = await loadInternalKey();
+        const otherInstalled = new KeyFile();
+        expect(await otherInstalled.loadFromFile(path.join(otherDir, '.git', 'git-crypt', 'keys', 'default'))).toBe(true);
+        expect(installed.getLatest()!.aesKey).toEqual(keys[0].getLatest()!.aesKey);
+        expect(otherInstalled.getLatest()!.aesKey).toEqual(keys[1].getLatest()!.aesKey);
+      } finally {
+        process.chdir(repoDir);
+        fs.rmSync(otherDir, { recursive: true, force: true });
+        fs.rmSync(outsideDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report the status of encrypted files', async () => {
+      fs.writeFileSync(path.join(repoDir, '.gitattributes'), 'secret.txt filter=git-crypt diff=git-crypt\nops.txt filter=git-crypt-ops\n');
+      fs.writeFileSync(path.join(repoDir, 'plain.txt'), 'plain\n');
+      git(repoDir, 'add', '.gitattributes', 'plain.txt');
+      addEncrypted('secret.txt', 'secret\n');
+
+      // Staged in plaintext, while the working copy is still encrypted
+      fs.writeFileSync(path.join(repoDir, 'ops.txt'), 'ops\n');
+      git(repoDir, '-c', 'filter.git-crypt-ops.clean=cat', 'add', 'ops.txt');
+      fs.copyFileSync(path.join(repoDir, '.git', 'encrypted'), path.join(repoDir, 'ops.txt'));
+      git(repoDir, 'commit', '-q', '-m', 'Add files');
+
+      process.chdir(originalCwd);
+      const statuses = await getRepositoryStatus(repoDir);
+      expect(statuses.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+        { path: 'ops.txt', keyName: 'ops', decrypted: false, indexEncrypted: false },
+        { path: 'secret.txt', keyName: 'default', decrypted: true, indexEncrypted: true }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Duplex, Readable, Writable } from 'stream';
+import {
+  encryptBlob,
+  decryptBlob,
+  tryDecryptBlob,
+  isEncryptedBlob,
+  decryptRange,
+  decryptFileRange,
+  createEncryptStream,
+  createDecryptStream
+} from '../../src/blob';
+import { createPipeline } from '../../src/fileStream';
+import { KeyFile, KeyEntry } from '../../src/key';
+import { GitCryptError } from '../../src/util';
+
+describe('Encrypted File Format', () => {
+  const testFilesDir = path.join(process.cwd(), 'test', 'files');
+  const encryptedFilesDir = path.join(process.cwd(), 'test', 'files-encrypted');
+
+  async function loadTestKey(): Promise<KeyFile> {
+    const keyFile = new KeyFile();
+    expect(await keyFile.loadFromFile(path.join(encryptedFilesDir, 'git-crypt.key'))).toBe(true);
+    return keyFile;
+  }
+
+  it('should encrypt to the same bytes as git-crypt', async () => {
+    const keyFile = await loadTestKey();
+    const plain = fs.readFileSync(path.join(testFilesDir, 'test.md'));
+
+    expect(encryptBlob(keyFile, plain).equals(fs.readFileSync(path.join(encryptedFilesDir, 'test.md')))).toBe(true);
+    expect(encryptBlob(keyFile.getLatest()!, plain).equals(encryptBlob(keyFile, plain))).toBe(true);
+  });
+
+  it('should decrypt files encrypted by git-crypt', async () => {
+    const keyFile = await loadTestKey();
+    const encrypted = fs.readFileSync(path.join(encryptedFilesDir, 'second.md'));
+
+    expect(isEncryptedBlob(encrypted)).toBe(true);
+    expect(decryptBlob(keyFile, encrypted).equals(fs.readFileSync(path.join(testFilesDir, 'second.md')))).toBe(true);
+  });
+
+  it('should pick the key version that verifies', () => {
+    const oldEntry = new KeyEntry();
+    oldEntry.generate(0);
+    const newEntry = new KeyEntry();
+    newEntry.generate(1);
+
+    const keyFile = new KeyFile();
+    keyFile.add(oldEntry);
+    keyFile.add(newEntry);
+
+    const result = tryDecryptBlob(keyFile, encryptBlob(oldEntry, Buffer.from('old secret')));
+    expect(result.verified).toBe(true);
+    expect(result.version).toBe(0);
+    expect(result.plaintext.toString()).toBe('old secret');
+  });
+
+  it('should reject plain and tampered data', async () => {
+    const keyFile = await loadTestKey();
+    const encrypted = encryptBlob(keyFile, Buffer.from('secret'));
+    encrypted[encrypted.length - 1] ^= 1;
+
+    expect(isEncryptedBlob(Buffer.from('secret'))).toBe(false);
+    expect(() => decryptBlob(keyFile, Buffer.from('secret'))).toThrow(GitCryptError);
+    expect(() => decryptBlob(keyFile, encrypted)).toThrow('tampered');
+    expect(tryDecryptBlob(keyFile, encrypted).verified).toBe(false);
+  });
+
+  describe('ranges', () => {
+    const plain = Buffer.from(Array.from({ length: 5000 }, (_, i) => `line ${i}\n`).join(''));
+
+    it('should decrypt any range without the rest of the file', async () => {
+      const keyFile = await loadTestKey();
+      const encrypted = encryptBlob(keyFile, plain);
+
+      for (const [offset, length] of [[0, 10], [1, 15], [16, 16], [17, 1000], [plain.length - 100, 100], [12345, 0]]) {
+        expect(decryptRange(encrypted, keyFile, offset, length).equals(plain.subarray(offset, offset + length))).toBe(true);
+      }
+
+      // Ranges are clamped to the end of the file
+      expect(decryptRange(encrypted, keyFile, plain.length - 5, 100).equals(plain.subarray(-5))).toBe(true);
+      expect(decryptRange(encrypted, keyFile, plain.length + 5, 100).length).toBe(0);
+
+      expect(() => decryptRange(encrypted, keyFile, -1, 10)).toThrow('invalid range');
+      expect(() => decryptRange(Buffer.from('secret'), keyFile, 0, 1)).toThrow(GitCryptError);
+    });
+
+    it('should decrypt ranges from a file handle', async () => {
+      const keyFile = await loadTestKey();
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-range-'));
+      const encryptedPath = path.join(tmpDir, 'log.enc');
+      fs.writeFileSync(encryptedPath, encryptBlob(keyFile, plain));
+      fs.writeFileSync(path.join(tmpDir, 'plain'), plain);
+
+      const handle = await fs.promises.open(encryptedPath, 'r');
+      const plainHandle = await fs.promises.open(path.join(tmpDir, 'plain'), 'r');
+      try {
+        expect((await decryptFileRange(handle, keyFile, plain.length - 1000, 1000)).equals(plain.subarray(-1000))).toBe(true);
+        expect((await decryptFileRange(handle, keyFile, 333, 4444)).equals(plain.subarray(333, 4777))).toBe(true);
+        expect((await decryptFileRange(handle, keyFile, plain.length, 10)).length).toBe(0);
+        await expect(decryptFileRange(plainHandle, keyFile, 0, 10)).rejects.toThrow('not a git-crypt encrypted file');
+      } finally {
+        await handle.close();
+        await plainHandle.close();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should need the key version when a key file has several', async () => {
+      const oldEntry = new KeyEntry();
+      oldEntry.generate(0);
+      const newEntry = new KeyEntry();
+      newEntry.generate(1);
+      const keyFile = new KeyFile();
+      keyFile.add(oldEntry);
+      keyFile.add(newEntry);
+
+      const encrypted = encryptBlob(oldEntry, plain);
+      const { version } = tryDecryptBlob(keyFile, encrypted);
+      expect(version).toBe(0);
+      expect(decryptRange(encrypted, keyFile, 17, 1000, version).equals(plain.subarray(17, 1017))).toBe(true);
+      expect(decryptRange(encrypted, keyFile, 17, 1000, 1).equals(plain.subarray(17, 1017))).toBe(false);
+      expect(() => decryptRange(encrypted, keyFile, 17, 1000)).toThrow('several versions');
+      expect(() => decryptRange(encrypted, keyFile, 17, 1000, 2)).toThrow('no version 2');
+
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-range-'));
+      const encryptedPath = path.join(tmpDir, 'log.enc');
+      fs.writeFileSync(encryptedPath, encrypted);
+      const handle = await fs.promises.open(encryptedPath, 'r');
+      try {
+        expect((await decryptFileRange(handle, keyFile, 333, 4444, 0)).equals(plain.subarray(333, 4777))).toBe(true);
+        await expect(decryptFileRange(handle, keyFile, 333, 4444)).rejects.toThrow('several versions');
+      } finally {
+        await handle.close();
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('streams', () => {
+    /** Feed data through a stream in chunks of the given size and collect the output */
+    async function pipeChunks(data: Buffer, chunkSize: number, transform: Duplex): Promise<Buffer> {
+      const chunks: Buffer[] = [];
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        chunks.push(data.subarray(offset, offset + chunkSize));
+      }
+
+      const output: Buffer[] = [];
+      await createPipeline([
+        Readable.from(chunks),
+        transform,
+        new Writable({
+          write(chunk: Buffer, encoding, callback) {
+            output.push(chunk);
+            callback();
+          }
+        })
+      ]);
+      return Buffer.concat(output);
+    }
+
+    it('should encrypt to the same bytes as encryptBlob', async () => {
+      const keyFile = await loadTestKey();
+      const plain = fs.readFileSync(path.join(testFilesDir, 'test.md'));
+      const large = Buffer.alloc(100 * 1024 + 7, 'large file ');
+
+      expect((await pipeChunks(plain, 5, createEncryptStream(keyFile)))
+        .equals(fs.readFileSync(path.join(encryptedFilesDir, 'test.md')))).toBe(true);
+      expect((await pipeChunks(large, 4096, createEncryptStream(keyFile))).equals(encryptBlob(keyFile, large))).toBe(true);
+      expect((await pipeChunks(Buffer.alloc(0), 1, createEncryptStream(keyFile))).equals(encryptBlob(keyFile, Buffer.alloc(0)))).toBe(true);
+    });
+
+    it('should spill large inputs to a temporary file and wipe it afterwards', async () => {
+      const keyFile = await loadTestKey();
+      const large = Buffer.alloc(300 * 1024 + 5, 'database dump ');
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-spill-'));
+      const oldTmpDir = process.env.TMPDIR;
+      process.env.TMPDIR = tmpDir;
+
+      try {
+        const spilled: string[] = [];
+        const output: Buffer[] = [];
+        await createPipeline([
+          Readable.from([large.subarray(0, 1000), large.subarray(1000)]),
+          createEncryptStream(keyFile, { spillThreshold: 64 * 1024 }),
+          new Writable({
+            write(chunk: Buffer, encoding, callback) {
+              spilled.push(...fs.readdirSync(tmpDir));
+              output.push(chunk);
+              callback();
+            }
+          })
+        ]);
+
+        expect(Buffer.concat(output).equals(encryptBlob(keyFile, large))).toBe(true);
+        expect(spilled.length).toBeGreaterThan(0);
+        expect(fs.readdirSync(tmpDir)).toEqual([]);
+      } finally {
+        if (oldTmpDir === undefined) {
+          delete process.env.TMPDIR;
+        } else {
+          process.env.TMPDIR = oldTmpDir;
+        }
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should decrypt with the header split across chunks', async () => {
+      const keyFile = await loadTestKey();
+      const encrypted = fs.readFileSync(path.join(encryptedFilesDir, 'second.md'));
+      const expected = fs.readFileSync(path.join(testFilesDir, 'second.md'));
+
+      for (const chunkSize of [1, 7, 22, 23, 4096]) {
+        expect((await pipeChunks(encrypted, chunkSize, createDecryptStream(keyFile))).equals(expected)).toBe(true);
+      }
+
+      const large = Buffer.alloc(100 * 1024 + 7, 'large file ');
+      expect((await pipeChunks(encryptBlob(keyFile, large), 1000, createDecryptStream(keyFile))).equals(large)).toBe(true);
+    });
+
+    it('should fail the pipeline for plain, truncated and tampered data', async () => {
+      const keyFile = await loadTestKey();
+      const encrypted = encryptBlob(keyFile, Buffer.from('secret'));
+      encrypted[encrypted.length - 1] ^= 1;
+
+      await expect(pipeChunks(Buffer.from('secret'), 3, createDecryptStream(keyFile))).rejects.toThrow(GitCryptError);
+      await expect(pipeChunks(Buffer.alloc(30), 30, createDecryptStream(keyFile))).rejects.toThrow('not a git-crypt encrypted file');
+      await expect(pipeChunks(encrypted, 4, createDecryptStream(keyFile))).rejects.toThrow('tampered');
+    });
+
+    it('should hold back the plaintext until it is verified with verifyFirst', async () => {
+      const keyFile = await loadTestKey();
+      const large = Buffer.alloc(100 * 1024 + 7, 'large file ');
+      const encrypted = encryptBlob(keyFile, large);
+      expect((await pipeChunks(encrypted, 1000, createDecryptStream(keyFile, { verifyFirst: true }))).equals(large)).toBe(true);
+
+      encrypted[encrypted.length - 1] ^= 1;
+      const output: Buffer[] = [];
+      await expect(createPipeline([
+        Readable.from([encrypted.subarray(0, 50000), encrypted.subarray(50000)]),
+        createDecryptStream(keyFile.getLatest()!, { verifyFirst: true }),
+        new Writable({
+          write(chunk: Buffer, encoding, callback) {
+            output.push(chunk);
+            callback();
+          }
+        })
+      ])).rejects.toThrow('tampered');
+      expect(output).toEqual([]);
+    });
+
+    it('should decrypt with the key version that verifies', async () => {
+      const oldEntry = new KeyEntry();
+      oldEntry.generate(0);
+      const newEntry = new KeyEntry();
+      newEntry.generate(1);
+      const keyFile = new KeyFile();
+      keyFile.add(oldEntry);
+      keyFile.add(newEntry);
+
+      const oldSecret = Buffer.from('old secret');
+      const large = Buffer.alloc(100 * 1024 + 7, 'large file ');
+      for (const chunkSize of [1, 7, 23, 4096]) {
+        expect((await pipeChunks(encryptBlob(oldEntry, oldSecret), chunkSize, createDecryptStream(keyFile))).equals(oldSecret)).toBe(true);
+      }
+      expect((await pipeChunks(encryptBlob(newEntry, large), 1000, createDecryptStream(keyFile))).equals(large)).toBe(true);
+      expect((await pipeChunks(encryptBlob(oldEntry, Buffer.alloc(0)), 22, createDecryptStream(keyFile))).length).toBe(0);
+
+      // Large files are held in a temporary file until the version is known
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-spill-'));
+      const oldTmpDir = process.env.TMPDIR;
+      process.env.TMPDIR = tmpDir;
+      try {
+        const decrypted = await pipeChunks(encryptBlob(oldEntry, large), 1000, createDecryptStream(keyFile, { spillThreshold: 16 * 1024 }));
+        expect(decrypted.equals(large)).toBe(true);
+        expect(fs.readdirSync(tmpDir)).toEqual([]);
+      } finally {
+        if (oldTmpDir === undefined) {
+          delete process.env.TMPDIR;
+        } else {
+          process.env.TMPDIR = oldTmpDir;
+        }
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+
+      const tampered = encryptBlob(oldEntry, oldSecret);
+      tampered[tampered.length - 1] ^= 1;
+      await expect(pipeChunks(tampered, 4, createDecryptStream(keyFile))).rejects.toThrow('tampered');
+      await expect(pipeChunks(Buffer.from('secret'), 3, createDecryptStream(keyFile))).rejects.toThrow('not a git-crypt encrypted file');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  browser,
+  parseKeyFile,
+  aesCtrProcess,
+  hmacSha1,
+  encryptBlob,
+  decryptBlob,
+  tryDecryptBlob,
+  isEncryptedBlob,
+  WebCryptoError,
+  MalformedKeyFileError,
+  NONCE_LEN,
+  MAX_CRYPT_BYTES
+} from '../../src/browser';
+import { AesCtrEncryptor, computeHmacSha1, randomBytes } from '../../src/crypto';
+import { KeyFile } from '../../src/key';
+import * as nodeBlob from '../../src/blob';
+import { browser as nodeBrowser } from '../../src/index';
+
+describe('Browser build', () => {
+  const srcDir = path.join(process.cwd(), 'src');
+  const testFilesDir = path.join(process.cwd(), 'test', 'files');
+  const encryptedFilesDir = path.join(process.cwd(), 'test', 'files-encrypted');
+
+  function readFixture(dir: string, name: string): Uint8Array {
+    return new Uint8Array(fs.readFileSync(path.join(dir, name)));
+  }
+
+  it('should not import any Node.js modules', () => {
+    const visited = new Set<string>();
+    const pending = ['browser'];
+    while (pending.length > 0) {
+      const name = pending.pop()!;
+      if (visited.has(name)) {
+        continue;
+      }
+      visited.add(name);
+
+      const source = fs.readFileSync(path.join(srcDir, `${name}.ts`), 'utf8');
+      for (const [, specifier] of source.matchAll(/(?:import|export)[^'"]*from\s+'([^']+)'/g)) {
+        expect(specifier, `${name}.ts imports ${specifier}`).toMatch(/^\.\//);
+        pending.push(specifier.slice(2));
+      }
+      expect(source, `${name}.ts uses Buffer`).not.toMatch(/\bBuffer\./);
+    }
+    expect([...visited].sort()).toEqual(['browser', 'keyFormat']);
+  });
+
+  it('should parse key files like KeyFile', async () => {
+    const data = readFixture(encryptedFilesDir, 'git-crypt.key');
+    const parsed = parseKeyFile(data);
+
+    const keyFile = new KeyFile();
+    expect(await keyFile.loadFromFile(path.join(encryptedFilesDir, 'git-crypt.key'))).toBe(true);
+    expect(parsed.keyName).toBe(keyFile.getKeyName());
+    expect(parsed.entries.map(entry => entry.version)).toEqual(keyFile.getVersions());
+    expect(parsed.entries[0].aesKey).toEqual(keyFile.getLatest()!.aesKey);
+    expect(parsed.entries[0].hmacKey).toEqual(keyFile.getLatest()!.hmacKey);
+
+    const legacy = parseKeyFile(new Uint8Array(96).fill(7));
+    expect(legacy.entries).toHaveLength(1);
+    expect(legacy.entries[0].version).toBe(0);
+
+    expect(() => parseKeyFile(new Uint8Array(10))).toThrow(MalformedKeyFileError);
+  });
+
+  it('should decrypt and encrypt files exactly like git-crypt', async () => {
+    const keyFile = parseKeyFile(readFixture(encryptedFilesDir, 'git-crypt.key'));
+
+    for (const name of ['test.md', 'second.md']) {
+      const encrypted = readFixture(encryptedFilesDir, name);
+      const plain = readFixture(testFilesDir, name);
+
+      expect(isEncryptedBlob(encrypted)).toBe(true);
+      expect(await decryptBlob(keyFile, encrypted)).toEqual(plain);
+      expect(await encryptBlob(keyFile, plain)).toEqual(encrypted);
+    }
+  });
+
+  it('should match the Node.js backend at any byte offset', async () => {
+    const aesKey = new Uint8Array(32);
+    const hmacKey = new Uint8Array(64);
+    const nonce = new Uint8Array(NONCE_LEN);
+    const data = new Uint8Array(5000);
+    randomBytes(aesKey);
+    randomBytes(hmacKey);
+    randomBytes(nonce);
+    randomBytes(data);
+
+    for (const offset of [0, 1, 16, 1234, 0x12345678 * 16 + 3]) {
+      const expected = new Uint8Array(data.length);
+      const encryptor = new AesCtrEncryptor(aesKey, nonce, offset);
+      encryptor.process(data, expected);
+      encryptor.destroy();
+
+      expect(await aesCtrProcess(aesKey, nonce, data, offset)).toEqual(expected);
+    }
+
+    expect(await hmacSha1(hmacKey, data)).toEqual(computeHmacSha1(hmacKey, data));
+    await expect(aesCtrProcess(aesKey, nonce, data, MAX_CRYPT_BYTES - 16)).rejects.toThrow('Exceeded maximum');
+  });
+
+  it('should try each key version and detect tampering', async () => {
+    const keyFile = new KeyFile();
+    keyFile.generate();
+    const oldEncrypted = nodeBlob.encryptBlob(keyFile, Buffer.from('old secret'));
+    keyFile.generateNextVersion();
+
+    const parsed = parseKeyFile(Buffer.from(await keyFile.storeToString(), 'binary'));
+    const result = await tryDecryptBlob(parsed, oldEncrypted);
+    expect(result.verified).toBe(true);
+    expect(result.version).toBe(parsed.entries[1].version);
+    expect(new TextDecoder().decode(result.plaintext)).toBe('old secret');
+
+    oldEncrypted[oldEncrypted.length - 1] ^= 1;
+    await expect(decryptBlob(parsed, oldEncrypted)).rejects.toThrow('tampered');
+    await expect(decryptBlob(parsed, new TextEncoder().encode('secret'))).rejects.toThrow(WebCryptoError);
+  });
+
+  it('should round-trip raw buffers through the browser object', async () => {
+    const { aesKey, hmacKey } = browser.generateKey();
+    const nonce = new Uint8Array(NONCE_LEN).fill(9);
+    const input = new TextEncoder().encode('Hello from the browser').buffer;
+
+    const encrypted = await browser.encryptBuffer(input, aesKey, hmacKey, nonce);
+    const decrypted = await browser.decryptBuffer(encrypted, aesKey, hmacKey, nonce);
+    expect(new TextDecoder().decode(decrypted)).toBe('Hello from the browser');
+  });
+
+  it('should keep the main entry point working without the Web Crypto API', async () => {
+    const { aesKey, hmacKey } = browser.generateKey();
+    const nonce = new Uint8Array(NONCE_LEN).fill(9);
+    const input = new TextEncoder().encode('Hello from Node 16').buffer;
+
+    // Node.js 16 has no globalThis.crypto
+    vi.stubGlobal('crypto', undefined);
+    try {
+      const encrypted = await nodeBrowser.encryptBuffer(input, aesKey, hmacKey, nonce);
+      const decrypted = await nodeBrowser.decryptBuffer(encrypted, aesKey, hmacKey, nonce);
+      expect(new TextDecoder().decode(decrypted)).toBe('Hello from Node 16');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    expect(new Uint8Array(await browser.encryptBuffer(input, aesKey, hmacKey, nonce)))
+      .toEqual(new Uint8Array(await nodeBrowser.encryptBuffer(input, aesKey, hmacKey, nonce)));
+  });
+});
@@ -1,13 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Readable, Writable } from 'stream';
 import {
   AesCtrEncryptor,
   AesCtrDecryptor,
+  AesEcbEncryptor,
   HmacSha1State,
   randomBytes,
   CryptoError,
   AES_KEY_LEN,
   HMAC_KEY_LEN
 } from '../../src/crypto';
+import { storeBe32 } from '../../src/util';
 
 describe('Crypto Functions', () => {
   describe('Random bytes generation', () => {
@@ -114,6 +117,144 @@ describe('Crypto Functions', () => {
     });
   });
 
+  describe('Native AES-CTR', () => {
+    let key: Uint8Array;
+    let nonce: Uint8Array;
+
+    /** Reference implementation: one AES-ECB block encryption per 16 bytes of keystream */
+    function referenceCtr(data: Uint8Array, offset = 0): Uint8Array {
+      const ecb = new AesEcbEncryptor(key);
+      const ctrValue = new Uint8Array(AesCtrEncryptor.BLOCK_LEN);
+      const pad = new Uint8Array(AesCtrEncryptor.BLOCK_LEN);
+      const output = new Uint8Array(data.length);
+      ctrValue.set(nonce, 0);
+
+      for (let i = 0; i < data.length; i++) {
+        const position = offset + i;
+        if (i === 0 || position % AesCtrEncryptor.BLOCK_LEN === 0) {
+          storeBe32(ctrValue, Math.floor(position / AesCtrEncryptor.BLOCK_LEN), AesCtrEncryptor.NONCE_LEN);
+          ecb.encrypt(ctrValue, pad);
+        }
+        output[i] = data[i] ^ pad[position % AesCtrEncryptor.BLOCK_LEN];
+      }
+      return output;
+    }
+
+    function randomData(length: number): Uint8Array {
+      const data = new Uint8Array(length);
+      for (let offset = 0; offset < length; offset += 65536) {
+        randomBytes(data.subarray(offset, offset + 65536));
+      }
+      return data;
+    }
+
+    beforeEach(() => {
+      key = new Uint8Array(AES_KEY_LEN);
+      nonce = new Uint8Array(AesCtrEncryptor.NONCE_LEN);
+      randomBytes(key);
+      randomBytes(nonce);
+    });
+
+    it('should match the block-by-block implementation for any length and chunking', () => {
+      for (const length of [1, 15, 16, 17, 255, 4096, 10007]) {
+        const plaintext = randomData(length);
+        const expected = referenceCtr(plaintext);
+
+        const whole = new Uint8Array(length);
+        const encryptor = new AesCtrEncryptor(key, nonce);
+        encryptor.process(plaintext, whole);
+        encryptor.destroy();
+        expect(whole).toEqual(expected);
+
+        // Uneven chunks, processed in place
+        const inPlace = plaintext.slice();
+        const chunked = new AesCtrEncryptor(key, nonce);
+        for (let offset = 0, size = 1; offset < length; offset += size, size = size * 2 + 1) {
+          const chunk = inPlace.subarray(offset, offset + size);
+          chunked.process(chunk, chunk);
+        }
+        chunked.destroy();
+        expect(inPlace).toEqual(expected);
+      }
+    });
+
+    it('should resume at arbitrary byte offsets', () => {
+      const plaintext = randomData(1000);
+      const expected = referenceCtr(plaintext);
+
+      for (const offset of [0, 1, 15, 16, 17, 333, 999]) {
+        const output = new Uint8Array(plaintext.length - offset);
+        const encryptor = new AesCtrEncryptor(key, nonce, offset);
+        encryptor.process(plaintext.subarray(offset), output);
+        encryptor.destroy();
+        expect(output).toEqual(expected.subarray(offset));
+      }
+
+      const encryptor = new AesCtrEncryptor(key, nonce);
+      const output = new Uint8Array(10);
+      encryptor.process(plaintext, output);
+      encryptor.seek(517);
+      encryptor.process(plaintext.subarray(517), output);
+      encryptor.destroy();
+      expect(output).toEqual(expected.subarray(517, 527));
+    });
+
+    it('should use the 32-bit big-endian block counter at high offsets', () => {
+      const offset = 0x12345678 * AesCtrEncryptor.BLOCK_LEN + 5;
+      const plaintext = randomData(100);
+
+      const output = new Uint8Array(plaintext.length);
+      const encryptor = new AesCtrEncryptor(key, nonce, offset);
+      encryptor.process(plaintext, output);
+      encryptor.destroy();
+      expect(output).toEqual(referenceCtr(plaintext, offset));
+    });
+
+    it('should refuse to exceed the maximum encryption length', () => {
+      const encryptor = new AesCtrEncryptor(key, nonce, AesCtrEncryptor.MAX_CRYPT_BYTES - 32);
+      const output = new Uint8Array(16);
+      expect(() => encryptor.process(new Uint8Array(16), output)).not.toThrow();
+      expect(() => encryptor.process(new Uint8Array(16), output)).toThrow('Exceeded maximum secure encryption length');
+      encryptor.destroy();
+
+      expect(() => new AesCtrEncryptor(key, nonce, AesCtrEncryptor.MAX_CRYPT_BYTES)).toThrow(CryptoError);
+      expect(() => new AesCtrEncryptor(key, nonce, -1)).toThrow(CryptoError);
+      expect(() => new AesCtrEncryptor(key, nonce, 1.5)).toThrow(CryptoError);
+    });
+
+    it('should process whole streams regardless of chunk size', async () => {
+      const plaintext = Buffer.from(randomData(10000));
+      const chunks = [plaintext.subarray(0, 3000), plaintext.subarray(3000, 3001), plaintext.subarray(3001)];
+
+      const output: Buffer[] = [];
+      await AesCtrEncryptor.processStream(Readable.from(chunks), new Writable({
+        write(chunk: Buffer, encoding, callback) {
+          output.push(chunk);
+          callback();
+        }
+      }), key, nonce);
+
+      expect(new Uint8Array(Buffer.concat(output))).toEqual(referenceCtr(plaintext));
+    });
+
+    it('should refuse to process after being destroyed', () => {
+      const encryptor = new AesCtrEncryptor(key, nonce);
+      encryptor.destroy();
+      expect(() => encryptor.process(new Uint8Array(1), new Uint8Array(1))).toThrow('destroyed');
+    });
+
+    it('should match the block-by-block implementation on large inputs', () => {
+      const plaintext = randomData(256 * 1024);
+
+      const output = new Uint8Array(plaintext.length);
+      const encryptor = new AesCtrEncryptor(key, nonce);
+      encryptor.process(plaintext, output);
+      encryptor.destroy();
+
+      expect(output).toEqual(referenceCtr(plaintext));
+    });
+  });
+
   describe('HMAC-SHA1', () => {
     let key: Uint8Array;
 
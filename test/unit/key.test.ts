@@ -177,11 +177,17 @@ describe('Key Management', () => {
       expect(keyFile.isFilled()).toBe(true);
       
       const latest = keyFile.getLatest();
-      expect(latest?.version).toBe(2); // FORMAT_VERSION
+      expect(latest?.version).toBe(0);
       expect(latest?.aesKey.length).toBe(AES_KEY_LEN);
       expect(latest?.hmacKey.length).toBe(HMAC_KEY_LEN);
     });
 
+    it('should number new versions from 0', () => {
+      expect(keyFile.generateNextVersion().version).toBe(0);
+      expect(keyFile.generateNextVersion().version).toBe(1);
+      expect(keyFile.getVersions()).toEqual([1, 0]);
+    });
+
     it('should convert to string', async () => {
       keyFile.generate();
       
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseOptions, OptionError, OptionDef } from '../../src/parseOptions';
+
+describe('Option Parsing', () => {
+  const options: OptionDef[] = [
+    { name: '-k', key: 'keyName', takesValue: true },
+    { name: '--key-name', key: 'keyName', takesValue: true },
+    { name: '-e', key: 'encrypted' },
+    { name: '-f', key: 'fix' },
+    { name: '--fix', key: 'fix' }
+  ];
+
+  it('should parse long options with separate and inline values', () => {
+    expect(parseOptions(options, ['--key-name', 'foo', 'file']).values.keyName).toBe('foo');
+
+    const parsed = parseOptions(options, ['--key-name=bar', 'file']);
+    expect(parsed.values.keyName).toBe('bar');
+    expect(parsed.argi).toBe(1);
+  });
+
+  it('should parse bundled short options', () => {
+    const parsed = parseOptions(options, ['-ef', '-kname']);
+    expect(parsed.flags.encrypted).toBe(true);
+    expect(parsed.flags.fix).toBe(true);
+    expect(parsed.values.keyName).toBe('name');
+    expect(parsed.argi).toBe(2);
+  });
+
+  it('should stop at -- and at the first positional argument', () => {
+    expect(parseOptions(options, ['--', '-e']).argi).toBe(1);
+    expect(parseOptions(options, ['file', '-e']).argi).toBe(0);
+    expect(parseOptions(options, ['-', 'file']).argi).toBe(0);
+  });
+
+  it('should throw OptionError for invalid usage', () => {
+    expect(() => parseOptions(options, ['--bogus'])).toThrow(OptionError);
+    expect(() => parseOptions(options, ['-k'])).toThrow('Option requires a value');
+    expect(() => parseOptions(options, ['--fix=yes'])).toThrow('Option takes no value');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Readable, Writable } from 'stream';
+import {
+  readPacket,
+  readPacketList,
+  readPacketContent,
+  readPacketChunks,
+  writePacketData,
+  writePacketList,
+  encodePacket,
+  encodePacketList,
+  encodePacketContent,
+  PktLineError,
+  PKT_LINE_MAX_DATA_LEN
+} from '../../src/pktLine';
+
+describe('pkt-line', () => {
+  it('should encode packets with a hex length prefix', () => {
+    expect(encodePacket(Buffer.from('a\n')).toString('ascii')).toBe('0006a\n');
+    expect(encodePacketList(['version=2']).toString('ascii')).toBe('000eversion=2\n0000');
+    expect(encodePacketList([]).toString('ascii')).toBe('0000');
+  });
+
+  it('should read back text lists and binary content', async () => {
+    const content = Buffer.alloc(PKT_LINE_MAX_DATA_LEN * 2 + 10, 0xab);
+    const input = Readable.from([Buffer.concat([
+      encodePacketList(['command=clean', 'pathname=a b.txt']),
+      encodePacketContent(content),
+      encodePacketList([])
+    ])]);
+
+    expect(await readPacketList(input)).toEqual(['command=clean', 'pathname=a b.txt']);
+    expect((await readPacketContent(input)).equals(content)).toBe(true);
+    expect(await readPacket(input)).toBeNull();
+  });
+
+  it('should split content into maximum-size packets', () => {
+    const encoded = encodePacketContent(Buffer.alloc(PKT_LINE_MAX_DATA_LEN + 1));
+    expect(encoded.subarray(0, 4).toString('ascii')).toBe('fff0');
+    expect(encoded.subarray(PKT_LINE_MAX_DATA_LEN + 4, PKT_LINE_MAX_DATA_LEN + 8).toString('ascii')).toBe('0005');
+    expect(encoded.subarray(-4).toString('ascii')).toBe('0000');
+    expect(encodePacketContent(Buffer.alloc(0)).toString('ascii')).toBe('0000');
+  });
+
+  it('should read and write content in pieces', async () => {
+    const content = Buffer.alloc(PKT_LINE_MAX_DATA_LEN * 2, 0xcd);
+    const written: Buffer[] = [];
+    const output = new Writable({
+      write(chunk: Buffer, encoding, callback) {
+        written.push(chunk);
+        callback();
+      }
+    });
+    await writePacketData(output, content.subarray(0, 100));
+    await writePacketData(output, content.subarray(100));
+    await writePacketList(output, []);
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of readPacketChunks(Readable.from([Buffer.concat(written)]))) {
+      chunks.push(chunk);
+    }
+    expect(chunks.map(chunk => chunk.length)).toEqual([100, PKT_LINE_MAX_DATA_LEN, PKT_LINE_MAX_DATA_LEN - 100]);
+    expect(Buffer.concat(chunks).equals(content)).toBe(true);
+  });
+
+  it('should reject malformed input', async () => {
+    await expect(readPacket(Readable.from([Buffer.from('zzzz')]))).rejects.toThrow(PktLineError);
+    await expect(readPacket(Readable.from([Buffer.from('0003')]))).rejects.toThrow('invalid packet length 3');
+    await expect(readPacket(Readable.from([Buffer.from('000aab')]))).rejects.toThrow('unexpected end of input');
+    await expect(readPacketList(Readable.from([Buffer.from('0006a\n')]))).rejects.toThrow('unexpected end of input');
+  });
+});
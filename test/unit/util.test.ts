@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
 import {
   SystemError,
   GitCryptError,
@@ -10,7 +11,12 @@ import {
   leaklessEquals,
   mkdirParent,
   fileExists,
-  removeFile
+  removeFile,
+  readStreamBytes,
+  isStreamEnded,
+  readBe32,
+  collectStream,
+  TempFileStream
 } from '../../src/util';
 
 describe('Utility Functions', () => {
@@ -121,6 +127,85 @@ describe('Utility Functions', () => {
       // Remove non-existent file should not throw
       await expect(removeFile(nonExistentFile)).resolves.not.toThrow();
     });
+
+    it('should wipe and delete temporary files', async () => {
+      const oldTmpDir = process.env.TMPDIR;
+      process.env.TMPDIR = testDir;
+      const tempFile = new TempFileStream();
+      try {
+        const handle = await tempFile.open('wx+');
+        const filename = tempFile.getFilename()!;
+        expect(path.dirname(filename)).toBe(testDir);
+        expect((await fs.promises.stat(filename)).mode & 0o777).toBe(0o600);
+
+        await handle.writeFile(Buffer.alloc(100 * 1024, 'secret'));
+        await tempFile.wipe();
+        expect(fs.readFileSync(filename).equals(Buffer.alloc(100 * 1024))).toBe(true);
+
+        await tempFile.close();
+        expect(await fileExists(filename)).toBe(false);
+      } finally {
+        if (oldTmpDir === undefined) {
+          delete process.env.TMPDIR;
+        } else {
+          process.env.TMPDIR = oldTmpDir;
+        }
+        await tempFile.close();
+      }
+    });
+  });
+
+  describe('Temporary file creation', () => {
+    it('should not follow a file planted under the temporary name', async () => {
+      const oldTmpDir = process.env.TMPDIR;
+      process.env.TMPDIR = testDir;
+      const target = path.join(testDir, 'target');
+      fs.writeFileSync(target, 'original');
+      fs.symlinkSync(target, path.join(testDir, `git-crypt-1000-${(0.5).toString(36).substr(2, 9)}`));
+
+      const now = vi.spyOn(Date, 'now').mockReturnValue(1000);
+      const random = vi.spyOn(Math, 'random').mockReturnValueOnce(0.5).mockReturnValueOnce(0.25);
+      const tempFile = new TempFileStream();
+      try {
+        const handle = await tempFile.open('wx+');
+        await handle.writeFile('plaintext');
+
+        expect(path.basename(tempFile.getFilename()!)).toBe(`git-crypt-1000-${(0.25).toString(36).substr(2, 9)}`);
+        expect(fs.readFileSync(target, 'utf8')).toBe('original');
+      } finally {
+        now.mockRestore();
+        random.mockRestore();
+        if (oldTmpDir === undefined) {
+          delete process.env.TMPDIR;
+        } else {
+          process.env.TMPDIR = oldTmpDir;
+        }
+        await tempFile.close();
+      }
+    });
+  });
+
+  describe('Stream reading', () => {
+    it('should read exact byte counts and leave the rest in the stream', async () => {
+      const stream = Readable.from([Buffer.from([0, 0, 1, 2, 3]), Buffer.from([4, 5])]);
+
+      expect(await readBe32(stream)).toBe(0x102);
+      expect(await readStreamBytes(stream, 2)).toEqual(Buffer.from([3, 4]));
+      expect(await isStreamEnded(stream)).toBe(false);
+      expect(await collectStream(stream)).toEqual(Buffer.from([5]));
+    });
+
+    it('should wait for data written later', async () => {
+      const stream = new PassThrough();
+      setTimeout(() => stream.write(Buffer.from([1])), 5);
+      setTimeout(() => stream.end(Buffer.from([2, 3])), 10);
+
+      expect(await readStreamBytes(stream, 2)).toEqual(Buffer.from([1, 2]));
+      expect(await readStreamBytes(stream, 4)).toEqual(Buffer.from([3]));
+      expect(await isStreamEnded(stream)).toBe(true);
+      expect(await readBe32(stream)).toBe(null);
+      expect(await collectStream(stream)).toEqual(Buffer.alloc(0));
+    });
   });
 
   describe('Error classes', () => {
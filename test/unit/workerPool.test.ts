@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkerPool, WorkerPoolError, transferList } from '../../src/workerPool';
+
+describe('Worker Pool', () => {
+  let tempDir: string;
+  let workerScript: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-crypt-pool-'));
+    workerScript = path.join(tempDir, 'worker.js');
+    // Replies slower to smaller numbers, so that results arrive out of order
+    fs.writeFileSync(workerScript, `
+      const { parentPort, workerData } = require('worker_threads');
+      parentPort.on('message', ({ value }) => {
+        if (value === 'crash') {
+          process.exit(3);
+        }
+        if (value < 0) {
+          parentPort.postMessage({ error: 'negative value' });
+          return;
+        }
+        setTimeout(() => parentPort.postMessage({ result: value * workerData.factor }), 50 - value * 10);
+      });
+    `);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run tasks on several workers and resolve each with its own result', async () => {
+    const pool = new WorkerPool<{ value: number }, number>(workerScript, 2, { factor: 3 });
+    try {
+      const results = await Promise.all([1, 2, 3, 4].map(value => pool.run({ value })));
+      expect(results).toEqual([3, 6, 9, 12]);
+    } finally {
+      await pool.destroy();
+    }
+  });
+
+  it('should reject tasks that fail and keep working', async () => {
+    const pool = new WorkerPool<{ value: number | string }, number>(workerScript, 1, { factor: 1 });
+    try {
+      await expect(pool.run({ value: -1 })).rejects.toThrow('negative value');
+      await expect(pool.run({ value: 'crash' })).rejects.toThrow(WorkerPoolError);
+      expect(await pool.run({ value: 2 })).toBe(2);
+    } finally {
+      await pool.destroy();
+    }
+  });
+
+  it('should move transferred buffers to the worker instead of copying them', async () => {
+    const pool = new WorkerPool<{ value: number; data: Uint8Array }, number>(workerScript, 1, { factor: 2 });
+    try {
+      const data = Buffer.alloc(64 * 1024, 1);
+      expect(await pool.run({ value: 1, data }, transferList(data))).toBe(2);
+      expect(data.buffer.byteLength).toBe(0);
+    } finally {
+      await pool.destroy();
+    }
+  });
+
+  it('should only transfer buffers that are not shared with other views', () => {
+    const whole = Buffer.alloc(16);
+    expect(transferList(whole, Buffer.from('pooled'), whole.subarray(4), new Uint8Array(0))).toEqual([whole.buffer]);
+  });
+
+  it('should fail queued tasks when destroyed', async () => {
+    const pool = new WorkerPool<{ value: number }, number>(workerScript, 1, { factor: 1 });
+    const tasks = Promise.allSettled([pool.run({ value: 1 }), pool.run({ value: 2 })]);
+
+    await pool.destroy();
+    for (const outcome of await tasks) {
+      expect(outcome.status).toBe('rejected');
+      expect((outcome as PromiseRejectedResult).reason.message).toContain('destroyed');
+    }
+    await expect(pool.run({ value: 3 })).rejects.toThrow('destroyed');
+  });
+});